@@ -8,7 +8,22 @@ import { WebSocketServer } from 'ws'
 import dotenv from 'dotenv'
 import authRoutes from './src/routes/auth.routes'
 import sessionRoutes from './src/routes/session.routes'
-import { handleSessionWebSocket } from './src/services/gemini.service'
+import workspaceRoutes from './src/routes/workspace.routes'
+import storageRoutes from './src/routes/storage.routes'
+import Session from './src/models/Session'
+import { handleSessionWebSocket } from './src/services/interview.service'
+import { checkInviteAccess, INVITE_NOT_FOUND } from './src/services/invite.service'
+import { startJobWorker } from './src/services/job.service'
+import { checkDuration, checkStorage, getWorkspaceLimits } from './src/services/quota.service'
+import { DOCUMENT_JOB, documentJobHandler } from './src/services/document.service'
+import { SESSION_EMAIL_JOB, sessionEmailJobHandler } from './src/services/schedule.service'
+import { WEBHOOK_JOB, webhookJobHandler } from './src/services/webhook.service'
+import {
+  NOTIFICATION_DIGEST_JOB,
+  NOTIFICATION_JOB,
+  notificationDigestJobHandler,
+  notificationJobHandler,
+} from './src/services/notification.service'
 
 dotenv.config()
 
@@ -32,6 +47,10 @@ app.use(cors({
   },
   credentials: true,
 }))
+// Behind a load balancer req.ip must come from X-Forwarded-For — OTP throttling keys on it
+if (process.env.TRUST_PROXY_HOPS) {
+  app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS))
+}
 app.use(express.json())
 app.use(cookieParser())
 app.use(morgan('dev'))
@@ -39,6 +58,8 @@ app.use(morgan('dev'))
 // REST routes
 app.use('/api/auth', authRoutes)
 app.use('/api/sessions', sessionRoutes)
+app.use('/api/workspaces', workspaceRoutes)
+app.use('/api/storage', storageRoutes)
 
 // WebSocket server — no path filter, handle routing manually
 const wss = new WebSocketServer({ server: httpServer })
@@ -60,8 +81,38 @@ wss.on('connection', async (ws, request) => {
 
   console.log(`WS connection — token: ${inviteToken.slice(0, 8)}...`)
 
-  const db = mongoose.connection.db
-  await handleSessionWebSocket(ws, inviteToken, db)
+  // Any failure here would otherwise be an unhandled rejection that takes the process down
+  try {
+    // Expired, revoked or closed links never reach the voice backend
+    const session = await Session.findOne({ inviteToken })
+      .select('status inviteExpiresAt inviteRevokedAt startedAt createdAt workspaceId duration extensionMinutes')
+    const denial = session ? checkInviteAccess(session) : INVITE_NOT_FOUND
+    if (denial) {
+      ws.send(JSON.stringify({ type: 'error', code: denial.code, message: denial.message }))
+      ws.close()
+      return
+    }
+
+    // Plan limits gate the start of an interview — a reconnect mid-interview is never cut off
+    if (session && !session.startedAt) {
+      const { limits } = await getWorkspaceLimits(session.workspaceId)
+      const quota = checkDuration(limits, session.duration + (session.extensionMinutes || 0)) || await checkStorage(session.workspaceId, limits)
+      if (quota) {
+        ws.send(JSON.stringify({ type: 'error', code: quota.code, message: quota.message }))
+        ws.close()
+        return
+      }
+    }
+
+    const db = mongoose.connection.db
+    await handleSessionWebSocket(ws, inviteToken, db)
+  } catch (err) {
+    console.error(`WS setup failed — token: ${inviteToken.slice(0, 8)}...:`, (err as Error).message)
+    if (ws.readyState === ws.OPEN) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Could not start the session' }))
+      ws.close()
+    }
+  }
 })
 
 // MongoDB + start
@@ -70,6 +121,13 @@ const MONGO_URI = process.env.MONGO_URI || 'mongodb://localhost:27017/ktpro'
 
 mongoose.connect(MONGO_URI).then(() => {
   console.log('MongoDB connected')
+  startJobWorker({
+    [DOCUMENT_JOB]: documentJobHandler,
+    [SESSION_EMAIL_JOB]: sessionEmailJobHandler,
+    [WEBHOOK_JOB]: webhookJobHandler,
+    [NOTIFICATION_JOB]: notificationJobHandler,
+    [NOTIFICATION_DIGEST_JOB]: notificationDigestJobHandler,
+  })
   httpServer.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`)
     console.log(`REST API: http://localhost:${PORT}/api`)
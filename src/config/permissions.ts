@@ -0,0 +1,42 @@
+// Workspace roles, strongest first. 'owner' is never stored — it comes from Workspace.ownerId.
+export type WorkspaceRole = 'owner' | 'admin' | 'manager' | 'viewer'
+
+export type MemberRole = Exclude<WorkspaceRole, 'owner'>
+
+export const MEMBER_ROLES: MemberRole[] = ['admin', 'manager', 'viewer']
+
+export type Permission =
+  | 'session:read'
+  | 'session:create'
+  | 'session:delete'
+  | 'document:generate'
+  | 'document:edit'
+  | 'members:read'
+  | 'members:manage'
+  | 'workspace:settings'
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, Permission[]> = {
+  viewer: ['session:read', 'members:read'],
+  manager: ['session:read', 'members:read', 'session:create', 'document:generate', 'document:edit'],
+  admin: [
+    'session:read', 'members:read', 'session:create', 'document:generate', 'document:edit',
+    'session:delete', 'members:manage', 'workspace:settings',
+  ],
+  owner: [
+    'session:read', 'members:read', 'session:create', 'document:generate', 'document:edit',
+    'session:delete', 'members:manage', 'workspace:settings',
+  ],
+}
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, manager: 1, admin: 2, owner: 3 }
+
+export const hasPermission = (role: WorkspaceRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission)
+
+export const getPermissions = (role: WorkspaceRole): Permission[] => ROLE_PERMISSIONS[role]
+
+export const strongerRole = (a: WorkspaceRole, b: WorkspaceRole): WorkspaceRole =>
+  ROLE_RANK[a] >= ROLE_RANK[b] ? a : b
+
+export const isMemberRole = (value: unknown): value is MemberRole =>
+  typeof value === 'string' && (MEMBER_ROLES as string[]).includes(value)
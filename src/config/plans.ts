@@ -0,0 +1,51 @@
+export type Plan = 'free' | 'pro' | 'enterprise'
+
+// Infinity means unlimited — reported as null by the usage endpoint
+export interface PlanLimits {
+  // New sessions per calendar month (UTC), counted at creation — deleting one doesn't refund it
+  sessionsPerMonth: number
+  // Longest interview a session may be planned for
+  maxDurationMinutes: number
+  // Screen-share frames, uploaded audio and server recordings across all sessions
+  maxStorageBytes: number
+  // Manual regenerations of an existing document per calendar month
+  regenerationsPerMonth: number
+  // Members plus pending invites
+  maxMembers: number
+  // Largest single interview recording the browser may upload
+  maxAudioUploadBytes: number
+}
+
+const MB = 1024 * 1024
+const GB = 1024 * MB
+
+const PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  free: {
+    sessionsPerMonth: 5,
+    maxDurationMinutes: 30,
+    maxStorageBytes: 2 * GB,
+    regenerationsPerMonth: 5,
+    maxMembers: 3,
+    maxAudioUploadBytes: 100 * MB,
+  },
+  pro: {
+    sessionsPerMonth: 100,
+    maxDurationMinutes: 90,
+    maxStorageBytes: 100 * GB,
+    regenerationsPerMonth: 200,
+    maxMembers: 25,
+    maxAudioUploadBytes: 1024 * MB,
+  },
+  enterprise: {
+    sessionsPerMonth: Infinity,
+    maxDurationMinutes: 180,
+    maxStorageBytes: 2048 * GB,
+    regenerationsPerMonth: Infinity,
+    maxMembers: Infinity,
+    maxAudioUploadBytes: 4096 * MB,
+  },
+}
+
+// Unknown or missing plans get free-tier limits
+export const getPlanLimits = (plan: string | null | undefined): PlanLimits =>
+  PLAN_LIMITS[plan as Plan] || PLAN_LIMITS.free
@@ -0,0 +1,66 @@
+import { Response } from 'express'
+import mongoose from 'mongoose'
+import { AuthRequest } from '../middleware/auth.middleware'
+import {
+  ANALYTICS_INTERVALS,
+  AnalyticsInterval,
+  getWorkspaceAnalytics,
+  isTimeZone,
+} from '../services/analytics.service'
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return null
+  const date = new Date(value as string)
+  return typeof value === 'string' && !Number.isNaN(date.getTime()) ? date : undefined
+}
+
+// GET /api/workspaces/current/analytics?from=&to=&createdBy=&interval=&timezone=
+// from is inclusive, to exclusive (both on createdAt); createdBy is a user id or "me"
+export const getAnalytics = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { createdBy, interval, timezone } = req.query as Record<string, string | undefined>
+
+    const from = parseDate(req.query.from)
+    const to = parseDate(req.query.to)
+    if (from === undefined || to === undefined) {
+      res.status(400).json({ message: 'from and to must be ISO dates' })
+      return
+    }
+    if (from && to && from >= to) {
+      res.status(400).json({ message: 'from must be before to' })
+      return
+    }
+
+    const creator = createdBy === 'me' ? req.user!.userId : createdBy || null
+    if (creator && !mongoose.isValidObjectId(creator)) {
+      res.status(400).json({ message: 'createdBy must be a user id or "me"' })
+      return
+    }
+
+    const bucket = (interval || 'week') as AnalyticsInterval
+    if (!ANALYTICS_INTERVALS.includes(bucket)) {
+      res.status(400).json({ message: `interval must be one of: ${ANALYTICS_INTERVALS.join(', ')}` })
+      return
+    }
+
+    const zone = timezone || process.env.EMAIL_TIMEZONE || 'UTC'
+    if (!isTimeZone(zone)) {
+      res.status(400).json({ message: 'timezone must be an IANA time zone, e.g. Europe/London' })
+      return
+    }
+
+    const analytics = await getWorkspaceAnalytics({
+      workspaceId: req.user!.workspaceId,
+      from,
+      to,
+      createdBy: creator,
+      interval: bucket,
+      timezone: zone
+    })
+
+    res.status(200).json({ analytics })
+  } catch (err) {
+    console.error('getAnalytics error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to compute analytics' })
+  }
+}
@@ -1,28 +1,38 @@
 import { Request, Response } from 'express'
-import jwt from 'jsonwebtoken'
-import mongoose from 'mongoose'
-import User from '../models/User'
-import Workspace from '../models/Workspace'
-import OTP from '../models/OTP'
-import generateOTP from '../utils/generateOTP'
+import User, { NOTIFICATION_DELIVERIES, NOTIFICATION_KINDS, NotificationDelivery } from '../models/User'
+import setAuthCookie from '../utils/setAuthCookie'
 import transporter from '../config/email'
 import { AuthRequest } from '../middleware/auth.middleware'
+import { ensureActiveWorkspace } from '../services/workspace.service'
+import { issueOTP, verifyOTPCode, OtpDenial } from '../services/otp.service'
+
+function sendDenial(res: Response, denial: OtpDenial): void {
+  if (denial.retryAfterMs !== undefined) {
+    res.set('Retry-After', String(Math.ceil(denial.retryAfterMs / 1000)))
+  }
+  res.status(denial.status).json({
+    message: denial.message,
+    code: denial.code,
+    retryAfterMs: denial.retryAfterMs,
+    attemptsRemaining: denial.attemptsRemaining
+  })
+}
 
 export const sendOTP = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email } = req.body
+    const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : ''
 
     if (!email) {
       res.status(400).json({ message: 'Email is required' })
       return
     }
 
-    await OTP.deleteMany({ email })
-
-    const otp = generateOTP()
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000)
-
-    await OTP.create({ email, otp, expiresAt })
+    const issued = await issueOTP(email, req.ip || 'unknown')
+    if (!('otp' in issued)) {
+      sendDenial(res, issued)
+      return
+    }
+    const { otp } = issued
 
     await transporter.sendMail({
       from: `"KT Pro" <${process.env.GMAIL_USER}>`,
@@ -53,65 +63,30 @@ export const sendOTP = async (req: Request, res: Response): Promise<void> => {
 
 export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, otp } = req.body
+    const { otp } = req.body
+    const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : ''
 
     if (!email || !otp) {
       res.status(400).json({ message: 'Email and OTP are required' })
       return
     }
 
-    const otpRecord = await OTP.findOne({ email })
-
-    if (!otpRecord) {
-      res.status(400).json({ message: 'OTP not found. Request a new one.' })
-      return
-    }
-
-    if (new Date() > otpRecord.expiresAt) {
-      await OTP.deleteMany({ email })
-      res.status(400).json({ message: 'OTP expired. Request a new one.' })
-      return
-    }
-
-    if (otpRecord.otp !== otp) {
-      res.status(400).json({ message: 'Invalid OTP' })
+    const denial = await verifyOTPCode(email, String(otp), req.ip || 'unknown')
+    if (denial) {
+      sendDenial(res, denial)
       return
     }
 
-    await OTP.deleteMany({ email })
-
     let user = await User.findOne({ email })
 
     if (!user) {
       user = await User.create({ email })
-
-      const workspace = await Workspace.create({
-        name: `${email.split('@')[0]}'s Workspace`,
-        ownerId: user._id
-      })
-
-      user.workspaceId = workspace._id as mongoose.Types.ObjectId
-      await user.save()
     }
 
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        email: user.email,
-        role: user.role,
-        workspaceId: user.workspaceId
-      },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '7d' }
-    )
-
-    const isProduction = process.env.NODE_ENV === 'production'
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: isProduction,
-      sameSite: isProduction ? 'none' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000
-    })
+    // New users get a private workspace; returning users land back in one they still belong to
+    await ensureActiveWorkspace(user)
+
+    setAuthCookie(res, user)
 
     res.status(200).json({
       message: 'Login successful',
@@ -152,4 +127,63 @@ export const getMe = async (req: AuthRequest, res: Response): Promise<void> => {
     console.error('getMe error:', (err as Error).message)
     res.status(500).json({ message: 'Failed to get user' })
   }
-}
\ No newline at end of file
+}
+
+// GET /api/auth/me/notifications — per-event delivery (immediate, digest or off) and the digest hour
+export const getNotificationPreferences = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.userId).select('notificationPreferences')
+    if (!user) {
+      res.status(404).json({ message: 'User not found' })
+      return
+    }
+    res.status(200).json({
+      preferences: user.notificationPreferences,
+      timezone: process.env.EMAIL_TIMEZONE || 'UTC'
+    })
+  } catch (err) {
+    console.error('getNotificationPreferences error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to get notification preferences' })
+  }
+}
+
+// PATCH /api/auth/me/notifications — e.g. { "interview_ended": "off", "digestHour": 9 }
+export const updateNotificationPreferences = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const updates: Record<string, NotificationDelivery | number> = {}
+
+    for (const kind of NOTIFICATION_KINDS) {
+      const value = req.body[kind]
+      if (value === undefined) continue
+      if (!NOTIFICATION_DELIVERIES.includes(value)) {
+        res.status(400).json({ message: `${kind} must be one of: ${NOTIFICATION_DELIVERIES.join(', ')}` })
+        return
+      }
+      updates[`notificationPreferences.${kind}`] = value
+    }
+
+    const { digestHour } = req.body
+    if (digestHour !== undefined) {
+      if (!Number.isInteger(digestHour) || digestHour < 0 || digestHour > 23) {
+        res.status(400).json({ message: 'digestHour must be a whole hour from 0 to 23' })
+        return
+      }
+      updates['notificationPreferences.digestHour'] = digestHour
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user?.userId,
+      { $set: updates },
+      { new: true, runValidators: true }
+    ).select('notificationPreferences')
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' })
+      return
+    }
+    res.status(200).json({ preferences: user.notificationPreferences })
+  } catch (err) {
+    console.error('updateNotificationPreferences error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to update notification preferences' })
+  }
+}
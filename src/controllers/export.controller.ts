@@ -0,0 +1,50 @@
+import { Response } from 'express'
+import Session from '../models/Session'
+import { AuthRequest } from '../middleware/auth.middleware'
+import { EXPORT_FORMATS, exportSessionDocument, isExportFormat } from '../services/export'
+
+const truthy = (value: unknown): boolean => value === 'true' || value === '1'
+
+// GET /api/sessions/:id/export?format=markdown|docx|pdf|confluence&transcript=true&frames=true
+export const exportSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const format = req.query.format
+
+    if (!isExportFormat(format)) {
+      res.status(400).json({ message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` })
+      return
+    }
+
+    const session = await Session.findOne({
+      _id: req.params.id,
+      workspaceId: req.user?.workspaceId
+    })
+
+    if (!session) {
+      res.status(404).json({ message: 'Session not found' })
+      return
+    }
+
+    if (!session.documentHtml && !session.document) {
+      res.status(400).json({ message: 'No document available to export' })
+      return
+    }
+
+    const result = await exportSessionDocument(session, format, {
+      includeTranscript: truthy(req.query.transcript),
+      includeFrames: truthy(req.query.frames)
+    })
+
+    const filename = `kt-${session.employeeName}-${session.role}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+
+    res.setHeader('Content-Type', result.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.${result.extension}"`)
+    res.status(200).send(result.body)
+  } catch (err) {
+    console.error('exportSession error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to export document' })
+  }
+}
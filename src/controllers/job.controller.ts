@@ -0,0 +1,59 @@
+import { Response } from 'express'
+import Job from '../models/Job'
+import Session from '../models/Session'
+import { AuthRequest } from '../middleware/auth.middleware'
+import { retryJob } from '../services/job.service'
+import { DOCUMENT_JOB } from '../services/document.service'
+import { SESSION_EMAIL_JOB } from '../services/schedule.service'
+
+// GET /api/sessions/:id/jobs
+export const getSessionJobs = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const jobs = await Job.find({
+      sessionId: req.params.id,
+      workspaceId: req.user?.workspaceId
+    })
+      .select('-payload -__v')
+      .sort({ createdAt: -1 })
+
+    res.status(200).json({ jobs })
+  } catch (err) {
+    console.error('getSessionJobs error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch jobs' })
+  }
+}
+
+// POST /api/sessions/:id/jobs/:jobId/retry — re-run a dead job, or a backing-off one immediately
+export const retrySessionJob = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const job = await retryJob(req.params.jobId as string, {
+      sessionId: req.params.id,
+      workspaceId: req.user?.workspaceId
+    })
+
+    if (!job) {
+      res.status(404).json({ message: 'No retryable job found' })
+      return
+    }
+
+    if (job.type === DOCUMENT_JOB) {
+      await Session.updateOne({ _id: req.params.id }, { $set: { status: 'processing' } })
+    }
+
+    if (job.type === SESSION_EMAIL_JOB) {
+      await Session.updateOne(
+        { _id: req.params.id, 'emails.jobId': job._id },
+        { $set: { 'emails.$.status': 'queued', 'emails.$.error': null } }
+      )
+    }
+
+    res.status(202).json({ job })
+  } catch (err: any) {
+    if (err.code === 11000) {
+      res.status(409).json({ message: 'Another job for this session is already queued' })
+      return
+    }
+    console.error('retrySessionJob error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to retry job' })
+  }
+}
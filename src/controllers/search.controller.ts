@@ -0,0 +1,69 @@
+import { Response } from 'express'
+import Session from '../models/Session'
+import { AuthRequest } from '../middleware/auth.middleware'
+import { collectSearchHits, parseSearchTerms } from '../services/search.service'
+
+const escapeRegex = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// GET /api/sessions/search?q=&interviewType=&role=&employee=&page=&limit=
+export const searchSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+    const { interviewType, role, employee } = req.query
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 50)
+    const page = Math.max(Number(req.query.page) || 1, 1)
+
+    if (!q) {
+      res.status(400).json({ message: 'q is required' })
+      return
+    }
+
+    // Repeated parameters (?role=a&role=b) arrive as arrays
+    if ([interviewType, role, employee].some((v) => v !== undefined && typeof v !== 'string')) {
+      res.status(400).json({ message: 'interviewType, role and employee must each be given once' })
+      return
+    }
+
+    const filter: Record<string, any> = {
+      workspaceId: req.user?.workspaceId,
+      $text: { $search: q }
+    }
+    if (interviewType) filter.interviewType = interviewType
+    if (role) filter.role = new RegExp(escapeRegex(role as string), 'i')
+    if (employee) {
+      const pattern = new RegExp(escapeRegex(employee as string), 'i')
+      filter.$or = [{ employeeName: pattern }, { employeeEmail: pattern }]
+    }
+
+    const [sessions, total] = await Promise.all([
+      Session.find(filter, { score: { $meta: 'textScore' } })
+        .select('employeeName employeeEmail role interviewType status startedAt createdAt transcript document')
+        .sort({ score: { $meta: 'textScore' } })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Session.countDocuments(filter)
+    ])
+
+    const terms = parseSearchTerms(q)
+    const results = sessions.map((session: any) => ({
+      session: {
+        _id: session._id,
+        employeeName: session.employeeName,
+        employeeEmail: session.employeeEmail,
+        role: session.role,
+        interviewType: session.interviewType,
+        status: session.status,
+        title: session.document?.title || null,
+        createdAt: session.createdAt
+      },
+      score: session.score,
+      hits: collectSearchHits(session, terms)
+    }))
+
+    res.status(200).json({ results, total, page, limit })
+  } catch (err) {
+    console.error('searchSessions error:', (err as Error).message)
+    res.status(500).json({ message: 'Search failed' })
+  }
+}
@@ -1,11 +1,37 @@
 import { Response } from 'express'
-import crypto from 'crypto'
-import multer from 'multer'
+import mongoose from 'mongoose'
 import Session from '../models/Session'
+import DocumentVersion from '../models/DocumentVersion'
 import { AuthRequest } from '../middleware/auth.middleware'
-import { uploadAudio } from '../services/s3.service'
-import { generateDocumentById } from '../services/gemini.service'
-
+import { signedUrl, signSessionMedia, storedObjectKey } from '../services/storage'
+import { discardRecordingFiles } from '../services/recording.service'
+import { enqueueDocumentGeneration } from '../services/document.service'
+import { ensureBaselineVersion, recordDocumentVersion } from '../services/version.service'
+import {
+  checkInviteAccess,
+  inviteExpiry,
+  newInviteToken,
+  parseExpiryHours,
+  INVITE_NOT_FOUND,
+} from '../services/invite.service'
+import { queueCancelEmail, queueInviteEmails, queueRescheduleEmails } from '../services/schedule.service'
+import { emitWebhookEvent, sessionEventData } from '../services/webhook.service'
+import { MAX_EXTENSION_MINUTES } from '../services/timebox.service'
+import { templatePin } from '../services/template.service'
+import { endLiveInterview } from '../services/interview.service'
+import {
+  checkDuration,
+  getWorkspaceLimits,
+  QuotaDenial,
+  releaseRegeneration,
+  releaseSession,
+  reserveRegeneration,
+  reserveSession,
+} from '../services/quota.service'
+
+const sendQuotaDenial = (res: Response, { status, ...body }: QuotaDenial): void => {
+  res.status(status).json(body)
+}
 
 // GET /api/sessions
 export const getSessions = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -34,13 +60,44 @@ export const getSession = async (req: AuthRequest, res: Response): Promise<void>
       return
     }
 
-    res.status(200).json({ session })
+    // Media goes out as short-lived signed URLs, never as stored keys alone
+    res.status(200).json({ session: { ...session.toObject(), ...(await signSessionMedia(session)) } })
   } catch (err) {
     console.error('getSession error:', (err as Error).message)
     res.status(500).json({ message: 'Failed to fetch session' })
   }
 }
 
+function parseSlot(value: unknown): Date | null {
+  const date = new Date(value as string)
+  if (typeof value !== 'string' || Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) return null
+  return date
+}
+
+// GET /api/sessions/:id/frames/:timestamp — redirects to a fresh signed URL; this is the
+// stable link that figures in documentHtml point at
+export const getSessionFrame = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = await Session.findOne({
+      _id: req.params.id,
+      workspaceId: req.user?.workspaceId
+    }).select('frames')
+
+    const frame = session?.frames.find((f) => f.timestamp === Number(req.params.timestamp))
+    const url = await signedUrl(storedObjectKey(frame))
+
+    if (!url) {
+      res.status(404).json({ message: 'Frame not found' })
+      return
+    }
+
+    res.redirect(302, url)
+  } catch (err) {
+    console.error('getSessionFrame error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch frame' })
+  }
+}
+
 // POST /api/sessions
 export const createSession = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -51,7 +108,10 @@ export const createSession = async (req: AuthRequest, res: Response): Promise<vo
       interviewGoal,
       interviewType,
       topics,
-      duration
+      duration,
+      scheduledAt,
+      sendInvite,
+      inviteExpiresInHours
     } = req.body
 
     if (!employeeName || !employeeEmail || !role || !interviewType) {
@@ -59,11 +119,31 @@ export const createSession = async (req: AuthRequest, res: Response): Promise<vo
       return
     }
 
-    // Generate unique invite token
-    const inviteToken = crypto.randomBytes(32).toString('hex')
+    const slot = scheduledAt ? parseSlot(scheduledAt) : null
+    if (scheduledAt && !slot) {
+      res.status(400).json({ message: 'scheduledAt must be a future date' })
+      return
+    }
+
+    const expiryHours = parseExpiryHours(inviteExpiresInHours)
+    if (!expiryHours) {
+      res.status(400).json({ message: 'inviteExpiresInHours must be greater than 0 and at most 2160' })
+      return
+    }
+
+    // Later template edits don't change the interview this session was set up for
+    const pin = await templatePin(req.user!.workspaceId, interviewType)
+
+    const { limits } = await getWorkspaceLimits(req.user!.workspaceId)
+    const denial = checkDuration(limits, duration || 30) || await reserveSession(req.user!.workspaceId, limits)
+    if (denial) {
+      sendQuotaDenial(res, denial)
+      return
+    }
 
     const session = await Session.create({
-      inviteToken,
+      inviteToken: newInviteToken(),
+      inviteExpiresAt: inviteExpiry(slot, expiryHours),
       workspaceId: req.user?.workspaceId,
       createdBy: req.user?.userId,
       employeeName,
@@ -71,11 +151,23 @@ export const createSession = async (req: AuthRequest, res: Response): Promise<vo
       role,
       interviewGoal: interviewGoal || '',
       interviewType,
+      ...pin,
       topics: topics || [],
       duration: duration || 30,
-      status: 'pending'
+      status: 'pending',
+      scheduledAt: slot
+    }).catch(async (err) => {
+      await releaseSession(req.user!.workspaceId)
+      throw err
     })
 
+    // A scheduled session always emails the employee; an unscheduled one only on request
+    if (slot || sendInvite) {
+      await queueInviteEmails(session)
+    }
+
+    emitWebhookEvent(session.workspaceId, 'session.created', sessionEventData(session))
+
     res.status(201).json({ session })
   } catch (err) {
     console.error('createSession error:', (err as Error).message)
@@ -83,78 +175,317 @@ export const createSession = async (req: AuthRequest, res: Response): Promise<vo
   }
 }
 
-// DELETE /api/sessions/:id
-export const deleteSession = async (req: AuthRequest, res: Response): Promise<void> => {
+// POST /api/sessions/:id/follow-up — new linked session for the same employee, built from
+// the parent document's gaps and follow-up questions (all of them when none are selected)
+export const createFollowUpSession = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const session = await Session.findOneAndDelete({
+    const { gaps, questions, interviewGoal, duration } = req.body as {
+      gaps?: string[]
+      questions?: string[]
+      interviewGoal?: string
+      duration?: number
+    }
+
+    const parent = await Session.findOne({
       _id: req.params.id,
       workspaceId: req.user?.workspaceId
     })
 
-    if (!session) {
+    if (!parent) {
       res.status(404).json({ message: 'Session not found' })
       return
     }
 
-    res.status(200).json({ message: 'Session deleted' })
+    if (!parent.document) {
+      res.status(400).json({ message: 'Session has no document to follow up on' })
+      return
+    }
+
+    const availableGaps = [
+      ...(parent.document.gaps || []),
+      ...(parent.document.sections || []).map((s) => s.gaps).filter((g): g is string => !!g)
+    ]
+    const availableQuestions = parent.document.followUpQuestions || []
+
+    const selectedGaps = Array.isArray(gaps) ? gaps : availableGaps
+    const selectedQuestions = Array.isArray(questions) ? questions : availableQuestions
+
+    if (
+      selectedGaps.some((g) => !availableGaps.includes(g)) ||
+      selectedQuestions.some((q) => !availableQuestions.includes(q))
+    ) {
+      res.status(400).json({ message: 'Selected gaps and questions must come from the session document' })
+      return
+    }
+
+    if (selectedGaps.length === 0 && selectedQuestions.length === 0) {
+      res.status(400).json({ message: 'Select at least one gap or follow-up question' })
+      return
+    }
+
+    const pin = await templatePin(parent.workspaceId, parent.interviewType)
+
+    const { limits } = await getWorkspaceLimits(parent.workspaceId)
+    const denial = checkDuration(limits, duration || parent.duration) || await reserveSession(parent.workspaceId, limits)
+    if (denial) {
+      sendQuotaDenial(res, denial)
+      return
+    }
+
+    const session = await Session.create({
+      inviteToken: newInviteToken(),
+      inviteExpiresAt: inviteExpiry(null),
+      workspaceId: parent.workspaceId,
+      createdBy: req.user?.userId,
+      employeeName: parent.employeeName,
+      employeeEmail: parent.employeeEmail,
+      role: parent.role,
+      interviewGoal: interviewGoal || `Close the gaps left by "${parent.document.title}"`,
+      interviewType: parent.interviewType,
+      ...pin,
+      topics: Array.from(new Set([...selectedGaps, ...selectedQuestions])),
+      duration: duration || parent.duration,
+      status: 'pending',
+      parentSessionId: parent._id,
+      followUp: {
+        parentTitle: parent.document.title || '',
+        parentSummary: parent.document.executiveSummary || '',
+        gaps: selectedGaps,
+        questions: selectedQuestions
+      }
+    }).catch(async (err) => {
+      await releaseSession(parent.workspaceId)
+      throw err
+    })
+
+    emitWebhookEvent(session.workspaceId, 'session.created', sessionEventData(session))
+
+    res.status(201).json({ session })
   } catch (err) {
-    console.error('deleteSession error:', (err as Error).message)
-    res.status(500).json({ message: 'Failed to delete session' })
+    console.error('createFollowUpSession error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to create follow-up session' })
   }
 }
 
-// GET /api/sessions/invite/:token (public — no auth, for employee)
-export const getSessionByToken = async (req: AuthRequest, res: Response): Promise<void> => {
+// PATCH /api/sessions/:id/schedule — move a pending session to a new slot and email the employee
+export const rescheduleSession = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const session = await Session.findOne({
-      inviteToken: req.params.token
-    }).select('-transcript -frames -document -interviewGoal')
+    const slot = parseSlot(req.body.scheduledAt)
+    if (!slot) {
+      res.status(400).json({ message: 'scheduledAt must be a future date' })
+      return
+    }
+
+    const session = await Session.findOneAndUpdate(
+      { _id: req.params.id, workspaceId: req.user?.workspaceId, status: 'pending' },
+      {
+        $set: { scheduledAt: slot },
+        $inc: { scheduleSequence: 1 },
+        // Never shortens a link the manager already extended
+        $max: { inviteExpiresAt: inviteExpiry(slot) }
+      },
+      { new: true }
+    )
 
     if (!session) {
-      res.status(404).json({ message: 'Invalid or expired invite link' })
+      res.status(404).json({ message: 'No pending session found' })
       return
     }
 
-    if (session.status === 'completed' || session.status === 'cancelled') {
-      res.status(400).json({ message: 'This session is no longer available' })
+    await queueRescheduleEmails(session)
+
+    res.status(200).json({ session: await Session.findById(session._id) })
+  } catch (err) {
+    console.error('rescheduleSession error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to reschedule session' })
+  }
+}
+
+// POST /api/sessions/:id/cancel — cancel a session that hasn't started and email the employee
+export const cancelSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = await Session.findOneAndUpdate(
+      { _id: req.params.id, workspaceId: req.user?.workspaceId, status: 'pending' },
+      { $set: { status: 'cancelled' }, $inc: { scheduleSequence: 1 } },
+      { new: true }
+    )
+
+    if (!session) {
+      res.status(404).json({ message: 'No pending session found' })
       return
     }
 
-    res.status(200).json({ session })
+    await queueCancelEmail(session)
+
+    res.status(200).json({ session: await Session.findById(session._id) })
   } catch (err) {
-    console.error('getSessionByToken error:', (err as Error).message)
-    res.status(500).json({ message: 'Failed to fetch session' })
+    console.error('cancelSession error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to cancel session' })
   }
 }
 
-// POST /api/sessions/upload-audio (public — called by employee browser after session)
-export const uploadSessionAudio = async (req: AuthRequest, res: Response): Promise<void> => {
+// POST /api/sessions/:id/extend — add minutes to a pending or running interview; a live bridge
+// picks the new limit up within a few seconds
+export const extendSession = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { inviteToken } = req.body
-    const file = req.file
+    const minutes = Number(req.body.minutes)
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_EXTENSION_MINUTES) {
+      res.status(400).json({ message: `minutes must be a whole number from 1 to ${MAX_EXTENSION_MINUTES}` })
+      return
+    }
+
+    const current = await Session.findOne({ _id: req.params.id, workspaceId: req.user?.workspaceId })
+      .select('workspaceId duration extensionMinutes status')
 
-    if (!inviteToken || !file) {
-      res.status(400).json({ message: 'Missing inviteToken or audio file' })
+    if (!current) {
+      res.status(404).json({ message: 'Session not found' })
       return
     }
 
-    const session = await Session.findOne({ inviteToken })
+    const { limits } = await getWorkspaceLimits(current.workspaceId)
+    const denial = checkDuration(limits, current.duration + (current.extensionMinutes || 0) + minutes)
+    if (denial) {
+      sendQuotaDenial(res, denial)
+      return
+    }
+
+    const session = await Session.findOneAndUpdate(
+      {
+        _id: current._id,
+        status: { $in: ['pending', 'active'] },
+        // Guards against two extensions racing past the cap
+        extensionMinutes: { $lte: MAX_EXTENSION_MINUTES - minutes }
+      },
+      { $inc: { extensionMinutes: minutes } },
+      { new: true }
+    ).select('duration extensionMinutes activeMs status')
+
+    if (!session) {
+      res.status(409).json({
+        message: `Only pending or active sessions can be extended, by up to ${MAX_EXTENSION_MINUTES} minutes in total`
+      })
+      return
+    }
+
+    res.status(200).json({
+      extensionMinutes: session.extensionMinutes,
+      limitMinutes: session.duration + session.extensionMinutes,
+      activeMinutes: Math.floor((session.activeMs || 0) / 60000)
+    })
+  } catch (err) {
+    console.error('extendSession error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to extend session' })
+  }
+}
+
+// POST /api/sessions/:id/invite/revoke — the link stops working everywhere, including reconnects,
+// and an interview running on it is ended
+export const revokeSessionInvite = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = await Session.findOneAndUpdate(
+      { _id: req.params.id, workspaceId: req.user?.workspaceId },
+      { $set: { inviteRevokedAt: new Date() } },
+      { new: true }
+    )
+
     if (!session) {
       res.status(404).json({ message: 'Session not found' })
       return
     }
 
-    const audioUrl = await uploadAudio(inviteToken, file.buffer, file.mimetype)
+    endLiveInterview(String(session._id), 'invite_revoked')
 
-    await Session.updateOne(
-      { inviteToken },
-      { $set: { audioUrl } }
+    res.status(200).json({ session })
+  } catch (err) {
+    console.error('revokeSessionInvite error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to revoke invite link' })
+  }
+}
+
+// POST /api/sessions/:id/invite/rotate — new token and expiry for the same session; the old
+// link stops working. Not allowed mid-interview, since a reconnecting browser still holds the old link.
+export const rotateSessionInvite = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const expiryHours = parseExpiryHours(req.body.inviteExpiresInHours)
+    if (!expiryHours) {
+      res.status(400).json({ message: 'inviteExpiresInHours must be greater than 0 and at most 2160' })
+      return
+    }
+
+    const existing = await Session.findOne({ _id: req.params.id, workspaceId: req.user?.workspaceId })
+    if (!existing) {
+      res.status(404).json({ message: 'Session not found' })
+      return
+    }
+
+    if (existing.status === 'active') {
+      res.status(409).json({ message: 'Cannot rotate the link while the interview is in progress' })
+      return
+    }
+
+    const session = await Session.findOneAndUpdate(
+      { _id: existing._id, status: { $ne: 'active' } },
+      {
+        $set: {
+          inviteToken: newInviteToken(),
+          inviteExpiresAt: inviteExpiry(existing.status === 'pending' ? existing.scheduledAt : null, expiryHours),
+          inviteRevokedAt: null
+        }
+      },
+      { new: true }
     )
 
-    res.status(200).json({ success: true, audioUrl })
+    if (!session) {
+      res.status(409).json({ message: 'Cannot rotate the link while the interview is in progress' })
+      return
+    }
+
+    res.status(200).json({ session })
+  } catch (err) {
+    console.error('rotateSessionInvite error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to rotate invite link' })
+  }
+}
+
+// DELETE /api/sessions/:id
+export const deleteSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = await Session.findOneAndDelete({
+      _id: req.params.id,
+      workspaceId: req.user?.workspaceId
+    })
+
+    if (!session) {
+      res.status(404).json({ message: 'Session not found' })
+      return
+    }
+
+    await DocumentVersion.deleteMany({ sessionId: session._id })
+
+    res.status(200).json({ message: 'Session deleted' })
+  } catch (err) {
+    console.error('deleteSession error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to delete session' })
+  }
+}
+
+// GET /api/sessions/invite/:token (public — no auth, for employee)
+export const getSessionByToken = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = await Session.findOne({
+      inviteToken: req.params.token
+    }).select('-transcript -frames -document -interviewGoal -emails -inviteRevokedAt')
+
+    const denial = session ? checkInviteAccess(session) : INVITE_NOT_FOUND
+    if (denial) {
+      res.status(denial.status).json({ message: denial.message, code: denial.code })
+      return
+    }
+
+    res.status(200).json({ session })
   } catch (err) {
-    console.error('uploadSessionAudio error:', (err as Error).message)
-    res.status(500).json({ message: 'Audio upload failed' })
+    console.error('getSessionByToken error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch session' })
   }
 }
 
@@ -173,14 +504,23 @@ export const finalizeSessionByInvite = async (req: AuthRequest, res: Response):
 
     const session = await Session.findOne({ inviteToken })
     if (!session) {
-      res.status(404).json({ message: 'Session not found' })
+      res.status(404).json({ message: 'Session not found', code: INVITE_NOT_FOUND.code })
+      return
+    }
+
+    const denial = checkInviteAccess(session)
+    if (denial) {
+      res.status(denial.status).json({ message: denial.message, code: denial.code })
       return
     }
 
+    // No resume after this — the uploaded recording is final
+    await discardRecordingFiles(String(session._id))
+
     if (action === 'discard') {
       await Session.updateOne(
         { inviteToken },
-        { $set: { status: 'cancelled', endedAt: session.endedAt || new Date(), resumptionHandle: null } }
+        { $set: { status: 'cancelled', endedAt: session.endedAt || new Date(), resumptionHandle: null, finalizedAs: action } }
       )
       res.status(200).json({ success: true, status: 'cancelled' })
       return
@@ -189,30 +529,17 @@ export const finalizeSessionByInvite = async (req: AuthRequest, res: Response):
     // action === 'generate_partial'
     await Session.updateOne(
       { inviteToken },
-      { $set: { status: 'processing', endedAt: session.endedAt || new Date(), resumptionHandle: null } }
+      { $set: { status: 'processing', endedAt: session.endedAt || new Date(), resumptionHandle: null, finalizedAs: action } }
     )
-    generateDocumentById(session._id.toString(), session.inviteToken)
-    res.status(202).json({ success: true, status: 'processing' })
+    const { job } = await enqueueDocumentGeneration(session)
+    res.status(202).json({ success: true, status: 'processing', jobId: job._id })
   } catch (err) {
     console.error('finalizeSessionByInvite error:', (err as Error).message)
     res.status(500).json({ message: 'Failed to finalize session' })
   }
 }
 
-// Multer config — memory storage, 100MB limit
-export const audioUpload = multer({
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 100 * 1024 * 1024 },
-  fileFilter: (_, file, cb) => {
-    if (file.mimetype.startsWith('audio/')) {
-      cb(null, true)
-    } else {
-      cb(new Error('Only audio files allowed'))
-    }
-  }
-})
-
-// PATCH /api/sessions/:id/document — save edited document HTML
+// PATCH /api/sessions/:id/document — save edited document HTML as a new version
 export const saveDocumentHtml = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { html } = req.body
@@ -221,18 +548,32 @@ export const saveDocumentHtml = async (req: AuthRequest, res: Response): Promise
       return
     }
 
-    const session = await Session.findOneAndUpdate(
-      { _id: req.params.id, workspaceId: req.user?.workspaceId },
-      { $set: { documentHtml: html } },
-      { new: true }
-    )
+    const session = await Session.findOne({ _id: req.params.id, workspaceId: req.user?.workspaceId })
 
     if (!session) {
       res.status(404).json({ message: 'Session not found' })
       return
     }
 
-    res.status(200).json({ success: true })
+    await ensureBaselineVersion(session)
+    const version = await recordDocumentVersion({
+      sessionId: session._id as mongoose.Types.ObjectId,
+      workspaceId: session.workspaceId,
+      source: 'manual',
+      authorId: req.user?.userId,
+      document: session.document,
+      documentHtml: html
+    })
+
+    await Session.updateOne({ _id: session._id }, { $set: { documentHtml: html } })
+    emitWebhookEvent(session.workspaceId, 'document.edited', {
+      ...sessionEventData(session),
+      version: version.version,
+      source: 'manual',
+      editedBy: req.user?.userId
+    })
+
+    res.status(200).json({ success: true, version: version.version })
   } catch (err) {
     console.error('saveDocumentHtml error:', (err as Error).message)
     res.status(500).json({ message: 'Failed to save document' })
@@ -257,13 +598,31 @@ export const generateSessionDocument = async (req: AuthRequest, res: Response):
       return
     }
 
+    // Replacing an existing document counts against the plan; a first or failed generation doesn't
+    const regenerating = !!session.document
+    if (regenerating) {
+      const { limits } = await getWorkspaceLimits(session.workspaceId)
+      const denial = await reserveRegeneration(session.workspaceId, limits)
+      if (denial) {
+        sendQuotaDenial(res, denial)
+        return
+      }
+    }
+
     // Mark as processing so UI can show spinner
     await Session.updateOne({ _id: req.params.id }, { $set: { status: 'processing' } })
 
-    // Fire and forget — client polls for completion
-    generateDocumentById(session._id.toString(), session.inviteToken)
+    // Queued — client polls the session (or its jobs) for completion
+    const { job, created } = await enqueueDocumentGeneration(session, req.user?.userId || null).catch(async (err) => {
+      if (regenerating) await releaseRegeneration(session.workspaceId)
+      throw err
+    })
+    // Joined a generation that was already queued — nothing new was spent
+    if (regenerating && !created) {
+      await releaseRegeneration(session.workspaceId)
+    }
 
-    res.status(202).json({ message: 'Document generation started' })
+    res.status(202).json({ message: 'Document generation started', jobId: job._id })
   } catch (err) {
     console.error('generateSessionDocument error:', (err as Error).message)
     res.status(500).json({ message: 'Failed to start generation' })
@@ -0,0 +1,29 @@
+import path from 'path'
+import { Request, Response } from 'express'
+import { getStorage, LOCAL_STORAGE_ROOT, storageSigningSecret } from '../services/storage'
+import { resolveLocalPath, verifyLocalSignature } from '../services/storage/local.driver'
+
+// GET /api/storage/object?key=&expires=&sig= — signed reads for the local-disk driver.
+// The S3 driver hands out presigned bucket URLs, so this route only serves local files.
+export const getStoredObject = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { key, expires, sig } = req.query as { key?: string; expires?: string; sig?: string }
+
+    if (getStorage().name !== 'local') {
+      res.status(404).json({ message: 'Not found' })
+      return
+    }
+
+    if (!key || !sig || !verifyLocalSignature(storageSigningSecret(), key, Number(expires), sig)) {
+      res.status(403).json({ message: 'Invalid or expired link' })
+      return
+    }
+
+    res.sendFile(path.resolve(resolveLocalPath(LOCAL_STORAGE_ROOT, key)), (err) => {
+      if (err && !res.headersSent) res.status(404).json({ message: 'Not found' })
+    })
+  } catch (err) {
+    console.error('getStoredObject error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to read object' })
+  }
+}
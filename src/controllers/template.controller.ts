@@ -0,0 +1,165 @@
+import { Response } from 'express'
+import InterviewTemplate, { IInterviewTemplate } from '../models/InterviewTemplate'
+import { INTERVIEW_TYPES } from '../models/Session'
+import { AuthRequest } from '../middleware/auth.middleware'
+import { buildSystemPrompt } from '../services/interview.service'
+import { buildDocumentPrompt } from '../services/document.service'
+import {
+  isInterviewType,
+  latestTemplate,
+  parseTemplateContent,
+  recordTemplateVersion,
+  TEMPLATE_VOICES,
+  TemplateContent,
+} from '../services/template.service'
+
+// Stands in for the transcript in the previewed document prompt
+const PREVIEW_TRANSCRIPT = { label: 'TRANSCRIPT', text: '[The interview transcript is inserted here]' }
+
+const parseVersion = (value: unknown): number | null => {
+  const version = Number(value)
+  return Number.isInteger(version) && version > 0 ? version : null
+}
+
+// GET /api/workspaces/current/templates — the current version for each interview type
+export const getTemplates = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const latest = await Promise.all(
+      INTERVIEW_TYPES.map((type) => latestTemplate(req.user!.workspaceId, type))
+    )
+
+    res.status(200).json({
+      templates: INTERVIEW_TYPES.map((interviewType, i) => ({ interviewType, template: latest[i] })),
+      voices: TEMPLATE_VOICES
+    })
+  } catch (err) {
+    console.error('getTemplates error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch templates' })
+  }
+}
+
+// GET /api/workspaces/current/templates/:interviewType/versions — newest first
+export const getTemplateVersions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { interviewType } = req.params
+    if (!isInterviewType(interviewType)) {
+      res.status(404).json({ message: 'Unknown interview type' })
+      return
+    }
+
+    const versions = await InterviewTemplate.find({ workspaceId: req.user?.workspaceId, interviewType })
+      .select('version name authorId createdAt')
+      .sort({ version: -1 })
+
+    res.status(200).json({ versions })
+  } catch (err) {
+    console.error('getTemplateVersions error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch template versions' })
+  }
+}
+
+// GET /api/workspaces/current/templates/:interviewType/versions/:version
+export const getTemplateVersion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { interviewType } = req.params
+    const version = parseVersion(req.params.version)
+    const template = isInterviewType(interviewType) && version
+      ? await InterviewTemplate.findOne({ workspaceId: req.user?.workspaceId, interviewType, version }).select('-__v')
+      : null
+
+    if (!template) {
+      res.status(404).json({ message: 'Template version not found' })
+      return
+    }
+
+    res.status(200).json({ template })
+  } catch (err) {
+    console.error('getTemplateVersion error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch template version' })
+  }
+}
+
+// PUT /api/workspaces/current/templates/:interviewType — saves the next version; existing
+// sessions keep the version they were created with
+export const saveTemplate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { interviewType } = req.params
+    if (!isInterviewType(interviewType)) {
+      res.status(404).json({ message: 'Unknown interview type' })
+      return
+    }
+
+    const content = parseTemplateContent(req.body)
+    if (typeof content === 'string') {
+      res.status(400).json({ message: content })
+      return
+    }
+
+    const template = await recordTemplateVersion(req.user!.workspaceId, interviewType, content, req.user!.userId)
+
+    res.status(201).json({ template })
+  } catch (err) {
+    console.error('saveTemplate error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to save template' })
+  }
+}
+
+// POST /api/workspaces/current/templates/preview — renders the prompts a draft session would get.
+// Uses `template` (unsaved fields) if given, else saved `version`, else the current version.
+export const previewTemplate = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const draft = req.body?.session || {}
+    if (!isInterviewType(draft.interviewType)) {
+      res.status(400).json({ message: `session.interviewType must be one of: ${INTERVIEW_TYPES.join(', ')}` })
+      return
+    }
+    if (draft.topics !== undefined && (!Array.isArray(draft.topics) || draft.topics.some((t: unknown) => typeof t !== 'string'))) {
+      res.status(400).json({ message: 'session.topics must be an array of strings' })
+      return
+    }
+
+    let saved: IInterviewTemplate | null = null
+    let template: TemplateContent | null = null
+    if (req.body.template !== undefined) {
+      const content = parseTemplateContent(req.body.template)
+      if (typeof content === 'string') {
+        res.status(400).json({ message: content })
+        return
+      }
+      template = content
+    } else if (req.body.version !== undefined) {
+      const version = parseVersion(req.body.version)
+      saved = version
+        ? await InterviewTemplate.findOne({ workspaceId: req.user?.workspaceId, interviewType: draft.interviewType, version })
+        : null
+      if (!saved) {
+        res.status(404).json({ message: 'Template version not found' })
+        return
+      }
+      template = saved
+    } else {
+      saved = await latestTemplate(req.user!.workspaceId, draft.interviewType)
+      template = saved
+    }
+
+    const session = {
+      employeeName: draft.employeeName || 'the employee',
+      role: draft.role || '',
+      interviewGoal: draft.interviewGoal || '',
+      interviewType: draft.interviewType,
+      topics: draft.topics || [],
+      duration: Number(draft.duration) || 30,
+      transcript: []
+    }
+
+    res.status(200).json({
+      template: saved ? { id: saved._id, version: saved.version } : null,
+      voice: template?.voice || null,
+      systemPrompt: buildSystemPrompt(session, template),
+      documentPrompt: buildDocumentPrompt(session, PREVIEW_TRANSCRIPT, 0, template)
+    })
+  } catch (err) {
+    console.error('previewTemplate error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to preview template' })
+  }
+}
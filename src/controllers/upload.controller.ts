@@ -0,0 +1,264 @@
+import crypto from 'crypto'
+import { Request, Response } from 'express'
+import Session from '../models/Session'
+import Workspace from '../models/Workspace'
+import AudioUpload, { IAudioUpload } from '../models/AudioUpload'
+import { getPlanLimits } from '../config/plans'
+import { checkStorage } from '../services/quota.service'
+import { checkInviteAccess, INVITE_NOT_FOUND } from '../services/invite.service'
+import { audioKey, getStorage, signedUrl } from '../services/storage'
+
+const MB = 1024 * 1024
+// S3 rejects non-final parts under 5 MiB
+export const AUDIO_PART_BYTES = Math.max(5 * MB, Number(process.env.AUDIO_UPLOAD_PART_BYTES) || 8 * MB)
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+const MAX_PARTS = 10000
+
+const partCount = (upload: IAudioUpload): number => Math.ceil(upload.totalSize / upload.partSize)
+
+const expectedPartSize = (upload: IAudioUpload, partNumber: number): number =>
+  partNumber < partCount(upload) ? upload.partSize : upload.totalSize - upload.partSize * (partCount(upload) - 1)
+
+function uploadState(upload: IAudioUpload) {
+  const received = upload.parts.map((p) => p.partNumber).sort((a, b) => a - b)
+  const missing: number[] = []
+  for (let n = 1; n <= partCount(upload); n++) if (!received.includes(n)) missing.push(n)
+  return {
+    uploadId: upload._id,
+    status: upload.status,
+    partSize: upload.partSize,
+    partCount: partCount(upload),
+    receivedParts: received,
+    // Where the browser picks up after a dropped connection
+    nextPart: missing[0] || null,
+    expiresAt: upload.expiresAt,
+  }
+}
+
+// Every call after initiate carries the invite token in X-Invite-Token
+async function findUpload(req: Request, res: Response): Promise<IAudioUpload | null> {
+  const inviteToken = req.get('x-invite-token')
+  const session = inviteToken ? await Session.findOne({ inviteToken }) : null
+  if (!session) {
+    res.status(404).json({ message: 'Session not found', code: INVITE_NOT_FOUND.code })
+    return null
+  }
+
+  const denial = checkInviteAccess(session, { allowClosed: true })
+  if (denial) {
+    res.status(denial.status).json({ message: denial.message, code: denial.code })
+    return null
+  }
+
+  const upload = await AudioUpload.findOne({ _id: req.params.uploadId, sessionId: session._id })
+  if (!upload) {
+    res.status(404).json({ message: 'Upload not found' })
+    return null
+  }
+  return upload
+}
+
+// POST /api/sessions/audio-uploads (public) — start, or resume a matching unfinished upload
+export const initiateAudioUpload = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { inviteToken, mimeType, size } = req.body as { inviteToken?: string; mimeType?: string; size?: number }
+
+    if (!inviteToken || typeof mimeType !== 'string' || !mimeType.startsWith('audio/')) {
+      res.status(400).json({ message: 'inviteToken and an audio mimeType are required' })
+      return
+    }
+
+    if (!Number.isInteger(size) || size! <= 0) {
+      res.status(400).json({ message: 'size must be a positive number of bytes' })
+      return
+    }
+    const totalSize = size as number
+
+    const session = await Session.findOne({ inviteToken })
+    if (!session) {
+      res.status(404).json({ message: 'Session not found', code: INVITE_NOT_FOUND.code })
+      return
+    }
+
+    const denial = checkInviteAccess(session, { allowClosed: true })
+    if (denial) {
+      res.status(denial.status).json({ message: denial.message, code: denial.code })
+      return
+    }
+
+    const workspace = await Workspace.findById(session.workspaceId).select('plan')
+    const limits = getPlanLimits(workspace?.plan)
+    const { maxAudioUploadBytes } = limits
+    if (totalSize > maxAudioUploadBytes) {
+      res.status(413).json({
+        message: 'Recording is larger than your plan allows',
+        code: 'AUDIO_TOO_LARGE',
+        limit: maxAudioUploadBytes
+      })
+      return
+    }
+
+    const partSize = Math.max(AUDIO_PART_BYTES, Math.ceil(totalSize / MAX_PARTS))
+
+    const existing = await AudioUpload.findOne({
+      sessionId: session._id,
+      status: 'uploading',
+      mimeType,
+      totalSize,
+      expiresAt: { $gt: new Date() }
+    }).sort({ createdAt: -1 })
+
+    if (existing) {
+      res.status(200).json(uploadState(existing))
+      return
+    }
+
+    // The new recording replaces any earlier upload for the session
+    const quota = await checkStorage(session.workspaceId, limits, Math.max(1, totalSize - (session.storageBytes?.audio || 0)))
+    if (quota) {
+      const { status, ...body } = quota
+      res.status(status).json(body)
+      return
+    }
+
+    const key = audioKey(String(session._id), mimeType)
+    const upload = await AudioUpload.create({
+      sessionId: session._id,
+      workspaceId: session.workspaceId,
+      key,
+      storageUploadId: await getStorage().createMultipartUpload(key, mimeType),
+      mimeType,
+      totalSize,
+      partSize,
+      expiresAt: new Date(Date.now() + UPLOAD_TTL_MS)
+    })
+
+    res.status(201).json(uploadState(upload))
+  } catch (err) {
+    console.error('initiateAudioUpload error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to start upload' })
+  }
+}
+
+// GET /api/sessions/audio-uploads/:uploadId (public) — which parts the server already holds
+export const getAudioUpload = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const upload = await findUpload(req, res)
+    if (!upload) return
+    res.status(200).json(uploadState(upload))
+  } catch (err) {
+    console.error('getAudioUpload error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch upload' })
+  }
+}
+
+// PUT /api/sessions/audio-uploads/:uploadId/parts/:partNumber (public) — raw bytes, with the
+// part's hex SHA-256 in X-Content-SHA256. Re-sending a part replaces it.
+export const uploadAudioPart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const upload = await findUpload(req, res)
+    if (!upload) return
+
+    if (upload.status !== 'uploading') {
+      res.status(409).json({ message: `Upload is ${upload.status}` })
+      return
+    }
+
+    const partNumber = Number(req.params.partNumber)
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount(upload)) {
+      res.status(400).json({ message: `partNumber must be between 1 and ${partCount(upload)}` })
+      return
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+    if (body.length !== expectedPartSize(upload, partNumber)) {
+      res.status(400).json({
+        message: `Part ${partNumber} must be ${expectedPartSize(upload, partNumber)} bytes`,
+        code: 'PART_SIZE_MISMATCH'
+      })
+      return
+    }
+
+    const sha256 = crypto.createHash('sha256').update(body).digest('hex')
+    if (sha256 !== String(req.get('x-content-sha256') || '').toLowerCase()) {
+      res.status(400).json({ message: 'Part checksum does not match', code: 'CHECKSUM_MISMATCH' })
+      return
+    }
+
+    const etag = await getStorage().uploadPart(upload.key, upload.storageUploadId, partNumber, body)
+    const part = { partNumber, size: body.length, sha256, etag }
+
+    const replaced = await AudioUpload.updateOne(
+      { _id: upload._id, 'parts.partNumber': partNumber },
+      { $set: { 'parts.$': part } }
+    )
+    if (replaced.matchedCount === 0) {
+      await AudioUpload.updateOne(
+        { _id: upload._id, 'parts.partNumber': { $ne: partNumber } },
+        { $push: { parts: part } }
+      )
+    }
+
+    res.status(200).json(uploadState((await AudioUpload.findById(upload._id))!))
+  } catch (err) {
+    console.error('uploadAudioPart error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to store part' })
+  }
+}
+
+// POST /api/sessions/audio-uploads/:uploadId/complete (public)
+export const completeAudioUpload = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const upload = await findUpload(req, res)
+    if (!upload) return
+
+    if (upload.status !== 'uploading') {
+      res.status(409).json({ message: `Upload is ${upload.status}` })
+      return
+    }
+
+    const state = uploadState(upload)
+    if (state.nextPart !== null) {
+      res.status(409).json({ message: 'Some parts have not been uploaded yet', code: 'PARTS_MISSING', ...state })
+      return
+    }
+
+    // Parts are stored in arrival order; S3 requires them ascending
+    await getStorage().completeMultipartUpload(
+      upload.key,
+      upload.storageUploadId,
+      upload.parts
+        .map(({ partNumber, etag }) => ({ partNumber, etag }))
+        .sort((a, b) => a.partNumber - b.partNumber)
+    )
+
+    await AudioUpload.updateOne({ _id: upload._id }, { $set: { status: 'completed', completedAt: new Date() } })
+    await Session.updateOne({ _id: upload.sessionId }, { $set: { audioKey: upload.key, audioUrl: null, 'storageBytes.audio': upload.totalSize } })
+
+    res.status(200).json({ success: true, audioUrl: await signedUrl(upload.key) })
+  } catch (err) {
+    console.error('completeAudioUpload error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to complete upload' })
+  }
+}
+
+// DELETE /api/sessions/audio-uploads/:uploadId (public)
+export const abortAudioUpload = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const upload = await findUpload(req, res)
+    if (!upload) return
+
+    if (upload.status !== 'uploading') {
+      res.status(409).json({ message: `Upload is ${upload.status}` })
+      return
+    }
+
+    await getStorage().abortMultipartUpload(upload.key, upload.storageUploadId)
+    await AudioUpload.updateOne({ _id: upload._id }, { $set: { status: 'aborted' } })
+
+    res.status(200).json({ success: true })
+  } catch (err) {
+    console.error('abortAudioUpload error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to abort upload' })
+  }
+}
@@ -0,0 +1,139 @@
+import { Response } from 'express'
+import mongoose from 'mongoose'
+import Session from '../models/Session'
+import DocumentVersion from '../models/DocumentVersion'
+import { AuthRequest } from '../middleware/auth.middleware'
+import { ensureBaselineVersion, recordDocumentVersion } from '../services/version.service'
+import { emitWebhookEvent, sessionEventData } from '../services/webhook.service'
+import diffText, { htmlToLines } from '../utils/diffText'
+
+// GET /api/sessions/:id/versions — newest first, without the document bodies
+export const getDocumentVersions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const versions = await DocumentVersion.find({
+      sessionId: req.params.id,
+      workspaceId: req.user?.workspaceId
+    })
+      .select('-document -documentHtml -__v')
+      .populate('authorId', 'email name')
+      .sort({ version: -1 })
+
+    res.status(200).json({ versions })
+  } catch (err) {
+    console.error('getDocumentVersions error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch versions' })
+  }
+}
+
+// GET /api/sessions/:id/versions/diff?from=&to=
+export const diffDocumentVersions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const from = Number(req.query.from)
+    const to = Number(req.query.to)
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      res.status(400).json({ message: 'from and to version numbers are required' })
+      return
+    }
+
+    const versions = await DocumentVersion.find({
+      sessionId: req.params.id,
+      workspaceId: req.user?.workspaceId,
+      version: { $in: [from, to] }
+    }).select('version documentHtml')
+
+    const before = versions.find((v) => v.version === from)
+    const after = versions.find((v) => v.version === to)
+
+    if (!before || !after) {
+      res.status(404).json({ message: 'Version not found' })
+      return
+    }
+
+    const changes = diffText(htmlToLines(before.documentHtml), htmlToLines(after.documentHtml))
+    if (!changes) {
+      res.status(422).json({ message: 'These versions differ too much to compare line by line' })
+      return
+    }
+
+    res.status(200).json({
+      from,
+      to,
+      added: changes.filter((c) => c.type === 'added').length,
+      removed: changes.filter((c) => c.type === 'removed').length,
+      changes
+    })
+  } catch (err) {
+    console.error('diffDocumentVersions error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to diff versions' })
+  }
+}
+
+// GET /api/sessions/:id/versions/:version
+export const getDocumentVersion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const version = await DocumentVersion.findOne({
+      sessionId: req.params.id,
+      workspaceId: req.user?.workspaceId,
+      version: Number(req.params.version)
+    }).populate('authorId', 'email name')
+
+    if (!version) {
+      res.status(404).json({ message: 'Version not found' })
+      return
+    }
+
+    res.status(200).json({ version })
+  } catch (err) {
+    console.error('getDocumentVersion error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch version' })
+  }
+}
+
+// POST /api/sessions/:id/versions/:version/restore — restoring is itself recorded as a new version
+export const restoreDocumentVersion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = await Session.findOne({
+      _id: req.params.id,
+      workspaceId: req.user?.workspaceId
+    })
+
+    const target = session && await DocumentVersion.findOne({
+      sessionId: session._id,
+      version: Number(req.params.version)
+    })
+
+    if (!session || !target) {
+      res.status(404).json({ message: 'Version not found' })
+      return
+    }
+
+    await ensureBaselineVersion(session)
+    const version = await recordDocumentVersion({
+      sessionId: session._id as mongoose.Types.ObjectId,
+      workspaceId: session.workspaceId,
+      source: 'manual',
+      authorId: req.user?.userId,
+      document: target.document || session.document,
+      documentHtml: target.documentHtml,
+      restoredFrom: target.version
+    })
+
+    await Session.updateOne(
+      { _id: session._id },
+      { $set: { document: version.document, documentHtml: version.documentHtml } }
+    )
+    emitWebhookEvent(session.workspaceId, 'document.edited', {
+      ...sessionEventData(session),
+      version: version.version,
+      source: 'restore',
+      restoredFrom: target.version,
+      editedBy: req.user?.userId
+    })
+
+    res.status(200).json({ success: true, version: version.version })
+  } catch (err) {
+    console.error('restoreDocumentVersion error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to restore version' })
+  }
+}
@@ -0,0 +1,214 @@
+import { Response } from 'express'
+import Webhook, { WEBHOOK_EVENTS, WebhookEvent } from '../models/Webhook'
+import WebhookDelivery from '../models/WebhookDelivery'
+import { AuthRequest } from '../middleware/auth.middleware'
+import { isWebhookUrl, newWebhookSecret, sendTestWebhook, webhookUrlProblem } from '../services/webhook.service'
+
+const MAX_WEBHOOKS = 10
+const DELIVERY_PAGE_SIZE = 50
+
+function parseEvents(value: unknown): WebhookEvent[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null
+  if (!value.every((e) => WEBHOOK_EVENTS.includes(e))) return null
+  return Array.from(new Set(value as WebhookEvent[]))
+}
+
+const findWebhook = (req: AuthRequest) =>
+  Webhook.findOne({ _id: req.params.webhookId, workspaceId: req.user?.workspaceId })
+
+// GET /api/workspaces/current/webhooks
+export const getWebhooks = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const webhooks = await Webhook.find({ workspaceId: req.user?.workspaceId })
+      .select('-__v')
+      .sort({ createdAt: 1 })
+
+    res.status(200).json({ webhooks, events: WEBHOOK_EVENTS })
+  } catch (err) {
+    console.error('getWebhooks error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch webhooks' })
+  }
+}
+
+// POST /api/workspaces/current/webhooks — the signing secret is only shown in this response
+export const createWebhook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { url, events, description } = req.body
+
+    if (!isWebhookUrl(url)) {
+      res.status(400).json({ message: 'url must be an http(s) URL' })
+      return
+    }
+    const problem = await webhookUrlProblem(url)
+    if (problem) {
+      res.status(400).json({ message: problem })
+      return
+    }
+
+    const subscribed = parseEvents(events)
+    if (!subscribed) {
+      res.status(400).json({ message: `events must list one or more of: ${WEBHOOK_EVENTS.join(', ')}` })
+      return
+    }
+
+    if ((await Webhook.countDocuments({ workspaceId: req.user?.workspaceId })) >= MAX_WEBHOOKS) {
+      res.status(409).json({ message: `A workspace can have at most ${MAX_WEBHOOKS} webhooks` })
+      return
+    }
+
+    const secret = newWebhookSecret()
+    const webhook = await Webhook.create({
+      workspaceId: req.user?.workspaceId,
+      url,
+      events: subscribed,
+      description: typeof description === 'string' ? description.trim() : '',
+      secret,
+      createdBy: req.user?.userId
+    })
+
+    const { secret: _, ...fields } = webhook.toObject()
+    res.status(201).json({ webhook: fields, secret })
+  } catch (err) {
+    console.error('createWebhook error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to create webhook' })
+  }
+}
+
+// PATCH /api/workspaces/current/webhooks/:webhookId — url, events, description, active
+export const updateWebhook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { url, events, description, active } = req.body
+    const updates: Record<string, any> = {}
+
+    if (url !== undefined) {
+      if (!isWebhookUrl(url)) {
+        res.status(400).json({ message: 'url must be an http(s) URL' })
+        return
+      }
+      const problem = await webhookUrlProblem(url)
+      if (problem) {
+        res.status(400).json({ message: problem })
+        return
+      }
+      updates.url = url
+    }
+
+    if (events !== undefined) {
+      const subscribed = parseEvents(events)
+      if (!subscribed) {
+        res.status(400).json({ message: `events must list one or more of: ${WEBHOOK_EVENTS.join(', ')}` })
+        return
+      }
+      updates.events = subscribed
+    }
+
+    if (typeof description === 'string') updates.description = description.trim()
+    if (typeof active === 'boolean') updates.active = active
+
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: req.params.webhookId, workspaceId: req.user?.workspaceId },
+      { $set: updates },
+      { new: true }
+    ).select('-__v')
+
+    if (!webhook) {
+      res.status(404).json({ message: 'Webhook not found' })
+      return
+    }
+
+    res.status(200).json({ webhook })
+  } catch (err) {
+    console.error('updateWebhook error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to update webhook' })
+  }
+}
+
+// DELETE /api/workspaces/current/webhooks/:webhookId — queued deliveries are skipped
+export const deleteWebhook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const webhook = await Webhook.findOneAndDelete({ _id: req.params.webhookId, workspaceId: req.user?.workspaceId })
+
+    if (!webhook) {
+      res.status(404).json({ message: 'Webhook not found' })
+      return
+    }
+
+    res.status(200).json({ success: true })
+  } catch (err) {
+    console.error('deleteWebhook error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to delete webhook' })
+  }
+}
+
+// POST /api/workspaces/current/webhooks/:webhookId/rotate-secret — the old secret stops working at once
+export const rotateWebhookSecret = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const secret = newWebhookSecret()
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: req.params.webhookId, workspaceId: req.user?.workspaceId },
+      { $set: { secret } },
+      { new: true }
+    ).select('-__v')
+
+    if (!webhook) {
+      res.status(404).json({ message: 'Webhook not found' })
+      return
+    }
+
+    res.status(200).json({ webhook, secret })
+  } catch (err) {
+    console.error('rotateWebhookSecret error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to rotate webhook secret' })
+  }
+}
+
+// POST /api/workspaces/current/webhooks/:webhookId/test — queues a signed webhook.test event
+export const testWebhook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req)
+
+    if (!webhook) {
+      res.status(404).json({ message: 'Webhook not found' })
+      return
+    }
+
+    if (!webhook.active) {
+      res.status(409).json({ message: 'Webhook is disabled' })
+      return
+    }
+
+    const delivery = await sendTestWebhook(webhook)
+    res.status(202).json({ delivery })
+  } catch (err) {
+    console.error('testWebhook error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to send test event' })
+  }
+}
+
+// GET /api/workspaces/current/webhooks/:webhookId/deliveries?status=&before= — newest first
+export const getWebhookDeliveries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const webhook = await findWebhook(req)
+
+    if (!webhook) {
+      res.status(404).json({ message: 'Webhook not found' })
+      return
+    }
+
+    const filter: Record<string, any> = { webhookId: webhook._id }
+    if (typeof req.query.status === 'string') filter.status = req.query.status
+    if (typeof req.query.before === 'string' && !isNaN(Date.parse(req.query.before))) {
+      filter.createdAt = { $lt: new Date(req.query.before) }
+    }
+
+    const deliveries = await WebhookDelivery.find(filter)
+      .select('-__v')
+      .sort({ createdAt: -1 })
+      .limit(DELIVERY_PAGE_SIZE)
+
+    res.status(200).json({ deliveries })
+  } catch (err) {
+    console.error('getWebhookDeliveries error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch deliveries' })
+  }
+}
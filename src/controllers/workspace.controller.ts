@@ -0,0 +1,426 @@
+import { Response } from 'express'
+import mongoose from 'mongoose'
+import Workspace, { IWorkspace } from '../models/Workspace'
+import WorkspaceMember, { IWorkspaceMember } from '../models/WorkspaceMember'
+import WorkspaceInvite from '../models/WorkspaceInvite'
+import User, { IUser } from '../models/User'
+import transporter from '../config/email'
+import setAuthCookie from '../utils/setAuthCookie'
+import escapeHtml from '../utils/escapeHtml'
+import { AuthRequest } from '../middleware/auth.middleware'
+import { isLLMProviderName } from '../services/llm'
+import {
+  addWorkspaceMember,
+  getUserWorkspaces,
+  getWorkspaceRole,
+  isWorkspaceMember,
+} from '../services/workspace.service'
+import { MEMBER_ROLES, getPermissions, hasPermission, isMemberRole } from '../config/permissions'
+import { checkMemberSeat, getWorkspaceLimits, getWorkspaceUsage } from '../services/quota.service'
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// GET /api/workspaces — every workspace the user belongs to
+export const getWorkspaces = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const workspaces = await getUserWorkspaces(req.user!.userId)
+    res.status(200).json({ workspaces, activeWorkspaceId: req.user?.workspaceId })
+  } catch (err) {
+    console.error('getWorkspaces error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch workspaces' })
+  }
+}
+
+// POST /api/workspaces/switch — make another membership the active workspace (re-issues the JWT)
+export const switchWorkspace = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { workspaceId } = req.body
+
+    if (!workspaceId || !(await isWorkspaceMember(req.user!.userId, workspaceId))) {
+      res.status(404).json({ message: 'Workspace not found' })
+      return
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user?.userId,
+      { $set: { workspaceId } },
+      { new: true }
+    )
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' })
+      return
+    }
+
+    setAuthCookie(res, user)
+    res.status(200).json({ success: true, workspaceId: user.workspaceId })
+  } catch (err) {
+    console.error('switchWorkspace error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to switch workspace' })
+  }
+}
+
+// GET /api/workspaces/current
+export const getCurrentWorkspace = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const workspace = await Workspace.findById(req.user?.workspaceId).select('-__v')
+
+    if (!workspace) {
+      res.status(404).json({ message: 'Workspace not found' })
+      return
+    }
+
+    const role = await getWorkspaceRole(req.user!.userId, workspace._id as mongoose.Types.ObjectId, req.user?.role)
+
+    res.status(200).json({ workspace, role, permissions: role ? getPermissions(role) : [] })
+  } catch (err) {
+    console.error('getCurrentWorkspace error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch workspace' })
+  }
+}
+
+// GET /api/workspaces/current/usage — this month's usage against the plan; null limits are unlimited
+export const getCurrentWorkspaceUsage = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.status(200).json(await getWorkspaceUsage(req.user!.workspaceId))
+  } catch (err) {
+    console.error('getCurrentWorkspaceUsage error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch usage' })
+  }
+}
+
+// PATCH /api/workspaces/current/llm — pin document generation to a provider (null = server default)
+export const updateWorkspaceLLM = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { provider, model } = req.body as { provider?: string | null; model?: string | null }
+
+    if (provider !== null && provider !== undefined && !isLLMProviderName(provider)) {
+      res.status(400).json({ message: 'Invalid LLM provider' })
+      return
+    }
+
+    if (model !== null && model !== undefined && typeof model !== 'string') {
+      res.status(400).json({ message: 'model must be a string' })
+      return
+    }
+
+    const workspace = await Workspace.findByIdAndUpdate(
+      req.user?.workspaceId,
+      { $set: { llmProvider: provider || null, llmModel: model || null } },
+      { new: true }
+    )
+
+    if (!workspace) {
+      res.status(404).json({ message: 'Workspace not found' })
+      return
+    }
+
+    res.status(200).json({ workspace })
+  } catch (err) {
+    console.error('updateWorkspaceLLM error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to update workspace' })
+  }
+}
+
+// GET /api/workspaces/current/members
+export const getWorkspaceMembers = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const workspace = await Workspace.findById(req.user?.workspaceId)
+    if (!workspace) {
+      res.status(404).json({ message: 'Workspace not found' })
+      return
+    }
+
+    const memberships = await WorkspaceMember.find({ workspaceId: workspace._id })
+      .populate<{ userId: IUser }>('userId', 'email name')
+      .sort({ createdAt: 1 })
+
+    const members = memberships.map((m) => {
+      const isOwner = String(m.userId._id) === String(workspace.ownerId)
+      return {
+        user: m.userId,
+        role: isOwner ? 'owner' : m.role,
+        isOwner,
+        joinedAt: m.createdAt
+      }
+    })
+
+    res.status(200).json({ members })
+  } catch (err) {
+    console.error('getWorkspaceMembers error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch members' })
+  }
+}
+
+// Only the owner may change or remove admins; nobody may touch the owner
+async function canManageMember(
+  req: AuthRequest,
+  workspace: IWorkspace,
+  target: IWorkspaceMember
+): Promise<{ ok: boolean; status: number; message: string }> {
+  if (String(target.userId) === String(workspace.ownerId)) {
+    return { ok: false, status: 400, message: 'The workspace owner cannot be changed or removed' }
+  }
+
+  const actorRole = await getWorkspaceRole(req.user!.userId, workspace._id as mongoose.Types.ObjectId, req.user?.role)
+  if (!actorRole || !hasPermission(actorRole, 'members:manage')) {
+    return { ok: false, status: 403, message: 'You do not have permission to manage members' }
+  }
+  if (target.role === 'admin' && actorRole !== 'owner') {
+    return { ok: false, status: 403, message: 'Only the workspace owner can change admins' }
+  }
+  return { ok: true, status: 200, message: '' }
+}
+
+// PATCH /api/workspaces/current/members/:userId — change a member's role
+export const updateWorkspaceMemberRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { role } = req.body
+
+    if (!isMemberRole(role)) {
+      res.status(400).json({ message: `role must be one of: ${MEMBER_ROLES.join(', ')}` })
+      return
+    }
+
+    const workspace = await Workspace.findById(req.user?.workspaceId)
+    const member = workspace && await WorkspaceMember.findOne({
+      workspaceId: workspace._id,
+      userId: req.params.userId
+    })
+
+    if (!workspace || !member) {
+      res.status(404).json({ message: 'Member not found' })
+      return
+    }
+
+    const check = await canManageMember(req, workspace, member)
+    if (!check.ok) {
+      res.status(check.status).json({ message: check.message })
+      return
+    }
+
+    if (role === 'admin' && req.workspaceRole !== 'owner') {
+      res.status(403).json({ message: 'Only the workspace owner can grant admin' })
+      return
+    }
+
+    member.role = role
+    await member.save()
+
+    res.status(200).json({ member })
+  } catch (err) {
+    console.error('updateWorkspaceMemberRole error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to update member' })
+  }
+}
+
+// DELETE /api/workspaces/current/members/:userId — remove someone (members:manage), or leave
+export const removeWorkspaceMember = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const workspace = await Workspace.findById(req.user?.workspaceId)
+    const member = workspace && await WorkspaceMember.findOne({
+      workspaceId: workspace._id,
+      userId: req.params.userId
+    })
+
+    if (!workspace || !member) {
+      res.status(404).json({ message: 'Member not found' })
+      return
+    }
+
+    // Any member except the owner may leave on their own
+    const isSelf = String(member.userId) === req.user?.userId
+    if (!isSelf || String(member.userId) === String(workspace.ownerId)) {
+      const check = await canManageMember(req, workspace, member)
+      if (!check.ok) {
+        res.status(check.status).json({ message: check.message })
+        return
+      }
+    }
+
+    await member.deleteOne()
+
+    // Their next request falls back to another workspace (see authMiddleware)
+    res.status(200).json({ message: 'Member removed' })
+  } catch (err) {
+    console.error('removeWorkspaceMember error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to remove member' })
+  }
+}
+
+// POST /api/workspaces/current/invites — invite by email; re-inviting resends and extends
+export const inviteWorkspaceMember = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : ''
+    const role = req.body.role ?? 'manager'
+
+    if (!email) {
+      res.status(400).json({ message: 'Email is required' })
+      return
+    }
+
+    if (!isMemberRole(role)) {
+      res.status(400).json({ message: `role must be one of: ${MEMBER_ROLES.join(', ')}` })
+      return
+    }
+
+    if (role === 'admin' && req.workspaceRole !== 'owner') {
+      res.status(403).json({ message: 'Only the workspace owner can invite admins' })
+      return
+    }
+
+    const workspace = await Workspace.findById(req.user?.workspaceId)
+    if (!workspace) {
+      res.status(404).json({ message: 'Workspace not found' })
+      return
+    }
+
+    const existingUser = await User.findOne({ email })
+    if (existingUser && await WorkspaceMember.exists({ workspaceId: workspace._id, userId: existingUser._id })) {
+      res.status(409).json({ message: 'Already a member of this workspace' })
+      return
+    }
+
+    // Re-sending a pending invite keeps the seat it already holds
+    if (!await WorkspaceInvite.exists({ workspaceId: workspace._id, email, status: 'pending', expiresAt: { $gt: new Date() } })) {
+      const { limits } = await getWorkspaceLimits(workspace._id as mongoose.Types.ObjectId)
+      const denial = await checkMemberSeat(workspace._id as mongoose.Types.ObjectId, limits)
+      if (denial) {
+        const { status, ...body } = denial
+        res.status(status).json(body)
+        return
+      }
+    }
+
+    const invite = await WorkspaceInvite.findOneAndUpdate(
+      { workspaceId: workspace._id, email, status: 'pending' },
+      {
+        $set: {
+          invitedBy: req.user?.userId,
+          role,
+          expiresAt: new Date(Date.now() + INVITE_TTL_MS)
+        }
+      },
+      { upsert: true, new: true }
+    )
+
+    const inviteUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/invites/${invite._id}`
+
+    await transporter.sendMail({
+      from: `"KT Pro" <${process.env.GMAIL_USER}>`,
+      to: email,
+      // Header value, not HTML — only line breaks need removing
+      subject: `You've been invited to ${workspace.name.replace(/[\r\n]+/g, ' ')} on KT Pro`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 400px; margin: 0 auto;">
+          <h2>Join ${escapeHtml(workspace.name)}</h2>
+          <p>${escapeHtml(req.user?.email || '')} invited you to collaborate on knowledge transfer sessions in KT Pro.</p>
+          <a href="${inviteUrl}"
+             style="display: inline-block; padding: 12px 24px; background: #111; color: #fff;
+                    text-decoration: none; border-radius: 8px; margin: 20px 0;">
+            View invitation
+          </a>
+          <p style="color: #666;">Sign in with ${escapeHtml(email)} to accept. This invitation expires in 7 days.</p>
+        </div>
+      `
+    })
+
+    res.status(201).json({ invite })
+  } catch (err) {
+    console.error('inviteWorkspaceMember error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to send invite' })
+  }
+}
+
+// GET /api/workspaces/current/invites — pending invites sent from this workspace
+export const getWorkspaceInvites = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const invites = await WorkspaceInvite.find({
+      workspaceId: req.user?.workspaceId,
+      status: 'pending',
+      expiresAt: { $gt: new Date() }
+    }).sort({ createdAt: -1 })
+
+    res.status(200).json({ invites })
+  } catch (err) {
+    console.error('getWorkspaceInvites error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch invites' })
+  }
+}
+
+// DELETE /api/workspaces/current/invites/:inviteId
+export const revokeWorkspaceInvite = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const invite = await WorkspaceInvite.findOneAndUpdate(
+      { _id: req.params.inviteId, workspaceId: req.user?.workspaceId, status: 'pending' },
+      { $set: { status: 'revoked', respondedAt: new Date() } },
+      { new: true }
+    )
+
+    if (!invite) {
+      res.status(404).json({ message: 'Invite not found' })
+      return
+    }
+
+    res.status(200).json({ message: 'Invite revoked' })
+  } catch (err) {
+    console.error('revokeWorkspaceInvite error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to revoke invite' })
+  }
+}
+
+// GET /api/workspaces/invites — pending invites addressed to the signed-in user
+export const getMyInvites = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const invites = await WorkspaceInvite.find({
+      email: req.user?.email,
+      status: 'pending',
+      expiresAt: { $gt: new Date() }
+    })
+      .populate('workspaceId', 'name')
+      .populate('invitedBy', 'email name')
+      .sort({ createdAt: -1 })
+
+    res.status(200).json({ invites })
+  } catch (err) {
+    console.error('getMyInvites error:', (err as Error).message)
+    res.status(500).json({ message: 'Failed to fetch invites' })
+  }
+}
+
+// POST /api/workspaces/invites/:inviteId/accept | decline
+export const respondToInvite = (action: 'accept' | 'decline') =>
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.inviteId)) {
+        res.status(404).json({ message: 'Invite not found' })
+        return
+      }
+
+      // Only the invited address may respond — the OTP login proves ownership of it
+      const invite = await WorkspaceInvite.findOneAndUpdate(
+        {
+          _id: req.params.inviteId,
+          email: req.user?.email,
+          status: 'pending',
+          expiresAt: { $gt: new Date() }
+        },
+        { $set: { status: action === 'accept' ? 'accepted' : 'declined', respondedAt: new Date() } },
+        { new: true }
+      )
+
+      if (!invite) {
+        res.status(404).json({ message: 'Invite not found or expired' })
+        return
+      }
+
+      if (action === 'accept') {
+        await addWorkspaceMember(invite.workspaceId, req.user!.userId, invite.invitedBy, invite.role)
+      }
+
+      res.status(200).json({ success: true, workspaceId: invite.workspaceId, status: invite.status })
+    } catch (err) {
+      console.error(`${action}Invite error:`, (err as Error).message)
+      res.status(500).json({ message: `Failed to ${action} invite` })
+    }
+  }
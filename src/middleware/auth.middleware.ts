@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt from 'jsonwebtoken'
+import User from '../models/User'
+import setAuthCookie from '../utils/setAuthCookie'
+import { ensureActiveWorkspace, isWorkspaceMember } from '../services/workspace.service'
+import { WorkspaceRole } from '../config/permissions'
 
 export interface AuthRequest extends Request {
   user?: {
@@ -8,13 +12,15 @@ export interface AuthRequest extends Request {
     role: string
     workspaceId: string
   }
+  // Set by requirePermission
+  workspaceRole?: WorkspaceRole
 }
 
-const authMiddleware = (
+const authMiddleware = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const token = req.cookies?.token
 
@@ -23,7 +29,21 @@ const authMiddleware = (
       return
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as AuthRequest['user']
+    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as NonNullable<AuthRequest['user']>
+
+    // The token outlives membership — a removed member is moved to another workspace
+    // they belong to and gets a fresh cookie instead of keeping access to the old one
+    if (!(await isWorkspaceMember(decoded.userId, decoded.workspaceId))) {
+      const user = await User.findById(decoded.userId)
+      if (!user) {
+        res.status(401).json({ message: 'Not authenticated' })
+        return
+      }
+      await ensureActiveWorkspace(user)
+      setAuthCookie(res, user)
+      decoded.workspaceId = String(user.workspaceId)
+    }
+
     req.user = decoded
     next()
   } catch (err) {
@@ -0,0 +1,25 @@
+import { Response, NextFunction } from 'express'
+import { AuthRequest } from './auth.middleware'
+import { Permission, hasPermission } from '../config/permissions'
+import { getWorkspaceRole } from '../services/workspace.service'
+
+// Route guard — use after authMiddleware. Resolves the caller's role in the active workspace.
+const requirePermission = (permission: Permission) =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const role = await getWorkspaceRole(req.user!.userId, req.user!.workspaceId, req.user!.role)
+
+      if (!role || !hasPermission(role, permission)) {
+        res.status(403).json({ message: 'You do not have permission to do this', permission })
+        return
+      }
+
+      req.workspaceRole = role
+      next()
+    } catch (err) {
+      console.error('requirePermission error:', (err as Error).message)
+      res.status(500).json({ message: 'Failed to check permissions' })
+    }
+  }
+
+export default requirePermission
@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export type AudioUploadStatus = 'uploading' | 'completed' | 'aborted'
+
+export interface IAudioUploadPart {
+  partNumber: number
+  size: number
+  sha256: string
+  etag: string
+}
+
+// One resumable browser upload of the interview recording, backed by a storage multipart upload
+export interface IAudioUpload extends Document {
+  sessionId: mongoose.Types.ObjectId
+  workspaceId: mongoose.Types.ObjectId
+  key: string
+  storageUploadId: string
+  mimeType: string
+  totalSize: number
+  partSize: number
+  parts: IAudioUploadPart[]
+  status: AudioUploadStatus
+  expiresAt: Date
+  completedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const audioUploadPartSchema = new Schema<IAudioUploadPart>(
+  {
+    partNumber: { type: Number, required: true },
+    size: { type: Number, required: true },
+    sha256: { type: String, required: true },
+    etag: { type: String, required: true }
+  },
+  { _id: false }
+)
+
+const audioUploadSchema = new Schema<IAudioUpload>(
+  {
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    key: {
+      type: String,
+      required: true
+    },
+    storageUploadId: {
+      type: String,
+      required: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    totalSize: {
+      type: Number,
+      required: true
+    },
+    partSize: {
+      type: Number,
+      required: true
+    },
+    parts: {
+      type: [audioUploadPartSchema],
+      default: []
+    },
+    status: {
+      type: String,
+      enum: ['uploading', 'completed', 'aborted'],
+      default: 'uploading'
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    completedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+audioUploadSchema.index({ sessionId: 1, createdAt: -1 })
+// Abandoned uploads expire; on S3, leftover parts need the bucket's abort-incomplete-multipart rule
+audioUploadSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 0, partialFilterExpression: { status: 'uploading' } }
+)
+
+export default mongoose.model<IAudioUpload>('AudioUpload', audioUploadSchema)
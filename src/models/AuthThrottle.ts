@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+// Fixed-window counter shared by every API process, e.g. "send:email:a@b.com",
+// "send:ip:1.2.3.4" or "lock:email:a@b.com"
+export interface IAuthThrottle extends Document {
+  key: string
+  count: number
+  windowStartsAt: Date
+  lastAt: Date | null
+  lockedUntil: Date | null
+  expiresAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const authThrottleSchema = new Schema<IAuthThrottle>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    count: {
+      type: Number,
+      default: 0
+    },
+    windowStartsAt: {
+      type: Date,
+      required: true
+    },
+    lastAt: {
+      type: Date,
+      default: null
+    },
+    lockedUntil: {
+      type: Date,
+      default: null
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  { timestamps: true }
+)
+
+authThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export default mongoose.model<IAuthThrottle>('AuthThrottle', authThrottleSchema)
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { IDocument } from './Session'
+
+export type DocumentVersionSource = 'ai' | 'manual'
+
+export interface IDocumentVersion extends Document {
+  sessionId: mongoose.Types.ObjectId
+  workspaceId: mongoose.Types.ObjectId
+  version: number
+  source: DocumentVersionSource
+  // User who saved, restored or requested the regeneration — null for automatic AI runs
+  authorId: mongoose.Types.ObjectId | null
+  document: IDocument | null
+  documentHtml: string | null
+  restoredFrom: number | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const documentVersionSchema = new Schema<IDocumentVersion>(
+  {
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    version: {
+      type: Number,
+      required: true
+    },
+    source: {
+      type: String,
+      enum: ['ai', 'manual'],
+      required: true
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    document: {
+      type: Schema.Types.Mixed,
+      default: null
+    },
+    documentHtml: {
+      type: String,
+      default: null
+    },
+    restoredFrom: {
+      type: Number,
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+documentVersionSchema.index({ sessionId: 1, version: -1 }, { unique: true })
+
+export default mongoose.model<IDocumentVersion>('DocumentVersion', documentVersionSchema)
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { INTERVIEW_TYPES, InterviewType } from './Session'
+
+export interface ITemplateSection {
+  heading: string
+  // What the section should cover — passed to the document model as-is
+  guidance: string
+}
+
+// One saved version of a workspace's template for an interview type. Versions are never
+// edited — saving creates the next one, and sessions keep pointing at the one they started with.
+// Empty fields fall back to the built-in behaviour.
+export interface IInterviewTemplate extends Document {
+  workspaceId: mongoose.Types.ObjectId
+  interviewType: InterviewType
+  version: number
+  name: string
+  // Replaces the interviewer's opening "You are ..." line
+  persona: string
+  // Prebuilt voice for the realtime backend; null → server default
+  voice: string | null
+  interviewerInstructions: string
+  requiredQuestions: string[]
+  sectionOutline: ITemplateSection[]
+  authorId: mongoose.Types.ObjectId | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const templateSectionSchema = new Schema<ITemplateSection>(
+  {
+    heading: { type: String, required: true, trim: true },
+    guidance: { type: String, default: '' }
+  },
+  { _id: false }
+)
+
+const interviewTemplateSchema = new Schema<IInterviewTemplate>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    interviewType: {
+      type: String,
+      enum: INTERVIEW_TYPES,
+      required: true
+    },
+    version: {
+      type: Number,
+      required: true
+    },
+    name: {
+      type: String,
+      default: ''
+    },
+    persona: {
+      type: String,
+      default: ''
+    },
+    voice: {
+      type: String,
+      default: null
+    },
+    interviewerInstructions: {
+      type: String,
+      default: ''
+    },
+    requiredQuestions: {
+      type: [String],
+      default: []
+    },
+    sectionOutline: {
+      type: [templateSectionSchema],
+      default: []
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+interviewTemplateSchema.index({ workspaceId: 1, interviewType: 1, version: -1 }, { unique: true })
+
+export default mongoose.model<IInterviewTemplate>('InterviewTemplate', interviewTemplateSchema)
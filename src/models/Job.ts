@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead'
+
+export interface IJob extends Document {
+  type: string
+  payload: Record<string, any>
+  status: JobStatus
+  key: string | null
+  // Mirrors key while pending/running, cleared when finished — one active job per key,
+  // e.g. generate_document:<sessionId>
+  activeKey: string | null
+  workspaceId: mongoose.Types.ObjectId | null
+  sessionId: mongoose.Types.ObjectId | null
+  attempts: number
+  maxAttempts: number
+  runAt: Date
+  lockedBy: string | null
+  leaseExpiresAt: Date | null
+  lastError: string | null
+  completedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const jobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: true
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'completed', 'dead'],
+      default: 'pending'
+    },
+    key: {
+      type: String,
+      default: null
+    },
+    activeKey: {
+      type: String,
+      default: null
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      default: null
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      default: null
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    maxAttempts: {
+      type: Number,
+      default: 5
+    },
+    runAt: {
+      type: Date,
+      default: Date.now
+    },
+    lockedBy: {
+      type: String,
+      default: null
+    },
+    leaseExpiresAt: {
+      type: Date,
+      default: null
+    },
+    lastError: {
+      type: String,
+      default: null
+    },
+    completedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+jobSchema.index({ status: 1, runAt: 1 })
+jobSchema.index({ sessionId: 1, createdAt: -1 })
+jobSchema.index(
+  { activeKey: 1 },
+  { unique: true, partialFilterExpression: { activeKey: { $type: 'string' } } }
+)
+
+export default mongoose.model<IJob>('Job', jobSchema)
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { NOTIFICATION_KINDS, NotificationKind } from './User'
+
+export type NotificationStatus = 'queued' | 'sent' | 'failed'
+
+// One event for one manager — emailed on its own, or collected into their next daily digest
+export interface INotification extends Document {
+  userId: mongoose.Types.ObjectId
+  workspaceId: mongoose.Types.ObjectId
+  sessionId: mongoose.Types.ObjectId
+  kind: NotificationKind
+  delivery: 'immediate' | 'digest'
+  // Event details for the template, e.g. the executive summary or failure reason
+  data: Record<string, any>
+  status: NotificationStatus
+  error: string | null
+  sentAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true
+    },
+    kind: {
+      type: String,
+      enum: NOTIFICATION_KINDS,
+      required: true
+    },
+    delivery: {
+      type: String,
+      enum: ['immediate', 'digest'],
+      required: true
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'failed'],
+      default: 'queued'
+    },
+    error: {
+      type: String,
+      default: null
+    },
+    sentAt: {
+      type: Date,
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+notificationSchema.index({ userId: 1, delivery: 1, status: 1, createdAt: 1 })
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 })
+
+export default mongoose.model<INotification>('Notification', notificationSchema)
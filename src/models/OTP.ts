@@ -2,7 +2,9 @@ import mongoose, { Document, Schema } from 'mongoose'
 
 export interface IOTP extends Document {
   email: string
-  otp: string
+  // bcrypt hash — the code itself is only ever in the email
+  otpHash: string
+  attempts: number
   expiresAt: Date
   createdAt: Date
 }
@@ -15,10 +17,14 @@ const otpSchema = new Schema<IOTP>(
       lowercase: true,
       trim: true
     },
-    otp: {
+    otpHash: {
       type: String,
       required: true
     },
+    attempts: {
+      type: Number,
+      default: 0
+    },
     expiresAt: {
       type: Date,
       required: true
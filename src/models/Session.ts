@@ -8,6 +8,15 @@ export type InterviewType =
   | "tool"
   | "troubleshooting";
 
+export const INTERVIEW_TYPES: InterviewType[] = [
+  "strategic",
+  "operational",
+  "flow",
+  "procedure",
+  "tool",
+  "troubleshooting",
+];
+
 export type SessionStatus =
   | "pending"
   | "active"
@@ -17,15 +26,42 @@ export type SessionStatus =
   | "cancelled"
   | "failed";
 
+// What the employee chose on the finalize screen after an interrupted interview
+export type SessionFinalizeAction = "generate_partial" | "discard";
+
 export interface ITranscriptChunk {
   speaker: "employee" | "ai";
   text: string;
   timestamp: number;
 }
 
+export type TopicStatus = "not_started" | "partial" | "covered";
+
+export interface ITopicCoverage {
+  topic: string;
+  status: TopicStatus;
+  updatedAt: Date | null;
+}
+
 export interface IFrame {
-  url: string;
+  // Storage object key — read through a signed URL
+  key: string;
   timestamp: number;
+  // Perceptual hash (hex) used to drop near-duplicate screens
+  phash?: string;
+  // Public URL from before keys were stored; only on older sessions
+  url?: string;
+}
+
+// Screen-share frames seen by the live bridge and what happened to them
+export interface IFrameStats {
+  received: number;
+  stored: number;
+  skippedSimilar: number;
+  skippedInterval: number;
+  // Arrived while the previous frame was still being hashed or uploaded
+  skippedBusy: number;
+  failed: number;
 }
 
 export interface IDocument {
@@ -35,16 +71,52 @@ export interface IDocument {
     heading: string;
     content: string;
     gaps?: string;
+    // Screen-share frames the model cited as evidence for this section
+    figures?: { figure: number; caption: string; timestamp: number; src: string }[];
   }[];
   criticalKnowledge: string[];
   handoverRisks?: string[];
   gaps: string[];
   recommendedActions?: string[];
   followUpQuestions: string[];
+  // Copied from the live interview's tracking, not written by the model
+  topicCoverage?: { topic: string; status: TopicStatus }[];
+}
+
+export type SessionEmailKind = "invite" | "reminder" | "reschedule" | "cancel";
+
+export type SessionEmailStatus = "queued" | "sent" | "failed" | "skipped";
+
+// One entry per email queued for the employee — updated in place as the send job runs
+export interface ISessionEmail {
+  jobId: mongoose.Types.ObjectId | null;
+  kind: SessionEmailKind;
+  to: string;
+  scheduledFor: Date;
+  status: SessionEmailStatus;
+  error: string | null;
+  sentAt: Date | null;
+}
+
+// Snapshot of the parent session's document, taken when a follow-up is spawned
+export interface IFollowUpContext {
+  parentTitle: string;
+  parentSummary: string;
+  gaps: string[];
+  questions: string[];
+}
+
+// Bytes this session holds in storage, counted against the workspace's plan
+export interface IStorageBytes {
+  frames: number;
+  audio: number;
+  recording: number;
 }
 
 export interface ISession extends Document {
   inviteToken: string;
+  inviteExpiresAt: Date | null;
+  inviteRevokedAt: Date | null;
   workspaceId: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
   employeeName: string;
@@ -52,17 +124,40 @@ export interface ISession extends Document {
   role: string;
   interviewGoal: string;
   interviewType: InterviewType;
+  // Workspace template version the session was created with — null uses the built-in prompts
+  templateId: mongoose.Types.ObjectId | null;
+  templateVersion: number | null;
   topics: string[];
   duration: number;
   status: SessionStatus;
   transcript: ITranscriptChunk[];
+  topicCoverage: ITopicCoverage[];
   frames: IFrame[];
+  frameStats: IFrameStats;
+  audioKey: string | null;
+  // Server-side stereo capture of the live interview — preferred over the browser upload
+  recordingKey: string | null;
+  storageBytes: IStorageBytes;
+  // Public URL from before keys were stored; only on older sessions
   audioUrl: string | null;
   document: IDocument | null;
   documentHtml: string | null;
   startedAt: Date | null;
   endedAt: Date | null;
+  // Time the employee has spent connected, summed over every connection and resume
+  activeMs: number;
+  // Granted by a manager on top of duration
+  extensionMinutes: number;
+  // Set once the interviewer has been told to wrap up; cleared if an extension moves the limit
+  wrapUpStartedAt: Date | null;
+  finalizedAs: SessionFinalizeAction | null;
   resumptionHandle: string | null;
+  parentSessionId: mongoose.Types.ObjectId | null;
+  followUp: IFollowUpContext | null;
+  scheduledAt: Date | null;
+  // Bumped on every reschedule/cancel so calendar clients replace the earlier event
+  scheduleSequence: number;
+  emails: ISessionEmail[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -76,10 +171,37 @@ const transcriptChunkSchema = new Schema<ITranscriptChunk>(
   { _id: false },
 );
 
+const topicCoverageSchema = new Schema<ITopicCoverage>(
+  {
+    topic: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["not_started", "partial", "covered"],
+      default: "not_started",
+    },
+    updatedAt: { type: Date, default: null },
+  },
+  { _id: false },
+);
+
 const frameSchema = new Schema<IFrame>(
   {
-    url: { type: String, required: true },
+    key: { type: String },
     timestamp: { type: Number, required: true },
+    phash: { type: String },
+    url: { type: String },
+  },
+  { _id: false },
+);
+
+const frameStatsSchema = new Schema<IFrameStats>(
+  {
+    received: { type: Number, default: 0 },
+    stored: { type: Number, default: 0 },
+    skippedSimilar: { type: Number, default: 0 },
+    skippedInterval: { type: Number, default: 0 },
+    skippedBusy: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
   },
   { _id: false },
 );
@@ -93,6 +215,15 @@ const documentSchema = new Schema<IDocument>(
         heading: String,
         content: String,
         gaps: String,
+        figures: [
+          {
+            _id: false,
+            figure: Number,
+            caption: String,
+            timestamp: Number,
+            src: String,
+          },
+        ],
       },
     ],
     criticalKnowledge: [String],
@@ -100,6 +231,44 @@ const documentSchema = new Schema<IDocument>(
     gaps: [String],
     recommendedActions: [String],
     followUpQuestions: [String],
+    topicCoverage: [
+      {
+        _id: false,
+        topic: String,
+        status: String,
+      },
+    ],
+  },
+  { _id: false },
+);
+
+const followUpContextSchema = new Schema<IFollowUpContext>(
+  {
+    parentTitle: { type: String, default: "" },
+    parentSummary: { type: String, default: "" },
+    gaps: [String],
+    questions: [String],
+  },
+  { _id: false },
+);
+
+const sessionEmailSchema = new Schema<ISessionEmail>(
+  {
+    jobId: { type: Schema.Types.ObjectId, ref: "Job", default: null },
+    kind: {
+      type: String,
+      enum: ["invite", "reminder", "reschedule", "cancel"],
+      required: true,
+    },
+    to: { type: String, required: true },
+    scheduledFor: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ["queued", "sent", "failed", "skipped"],
+      default: "queued",
+    },
+    error: { type: String, default: null },
+    sentAt: { type: Date, default: null },
   },
   { _id: false },
 );
@@ -111,6 +280,14 @@ const sessionSchema = new Schema<ISession>(
       required: true,
       unique: true,
     },
+    inviteExpiresAt: {
+      type: Date,
+      default: null,
+    },
+    inviteRevokedAt: {
+      type: Date,
+      default: null,
+    },
     workspaceId: {
       type: Schema.Types.ObjectId,
       ref: "Workspace",
@@ -153,6 +330,15 @@ const sessionSchema = new Schema<ISession>(
       ],
       required: true,
     },
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: "InterviewTemplate",
+      default: null,
+    },
+    templateVersion: {
+      type: Number,
+      default: null,
+    },
     topics: {
       type: [String],
       default: [],
@@ -170,10 +356,18 @@ const sessionSchema = new Schema<ISession>(
       type: [transcriptChunkSchema],
       default: [],
     },
+    topicCoverage: {
+      type: [topicCoverageSchema],
+      default: [],
+    },
     frames: {
       type: [frameSchema],
       default: [],
     },
+    frameStats: {
+      type: frameStatsSchema,
+      default: () => ({}),
+    },
     document: {
       type: documentSchema,
       default: null,
@@ -182,6 +376,19 @@ const sessionSchema = new Schema<ISession>(
       type: String,
       default: null,
     },
+    audioKey: {
+      type: String,
+      default: null,
+    },
+    recordingKey: {
+      type: String,
+      default: null,
+    },
+    storageBytes: {
+      frames: { type: Number, default: 0 },
+      audio: { type: Number, default: 0 },
+      recording: { type: Number, default: 0 },
+    },
     audioUrl: {
       type: String,
       default: null,
@@ -194,15 +401,78 @@ const sessionSchema = new Schema<ISession>(
       type: Date,
       default: null,
     },
+    activeMs: {
+      type: Number,
+      default: 0,
+    },
+    extensionMinutes: {
+      type: Number,
+      default: 0,
+    },
+    wrapUpStartedAt: {
+      type: Date,
+      default: null,
+    },
+    finalizedAs: {
+      type: String,
+      enum: ["generate_partial", "discard", null],
+      default: null,
+    },
     resumptionHandle: {
       type: String,
       default: null,
     },
+    parentSessionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Session",
+      default: null,
+    },
+    followUp: {
+      type: followUpContextSchema,
+      default: null,
+    },
+    scheduledAt: {
+      type: Date,
+      default: null,
+    },
+    scheduleSequence: {
+      type: Number,
+      default: 0,
+    },
+    emails: {
+      type: [sessionEmailSchema],
+      default: [],
+    },
   },
   { timestamps: true },
 );
 
 // Index for fast lookups
 sessionSchema.index({ workspaceId: 1, createdAt: -1 });
+sessionSchema.index({ parentSessionId: 1 });
+
+// Workspace search — one text index covers transcript and document fields
+sessionSchema.index(
+  {
+    "transcript.text": "text",
+    "document.title": "text",
+    "document.executiveSummary": "text",
+    "document.sections.heading": "text",
+    "document.sections.content": "text",
+    "document.sections.gaps": "text",
+    "document.criticalKnowledge": "text",
+    "document.gaps": "text",
+  },
+  {
+    name: "session_search",
+    weights: {
+      "document.sections.heading": 5,
+      "document.criticalKnowledge": 4,
+      "document.title": 3,
+      "document.gaps": 3,
+      "document.sections.gaps": 3,
+    },
+  },
+);
 
 export default mongoose.model<ISession>("Session", sessionSchema);
@@ -1,10 +1,27 @@
 import mongoose, { Document, Schema } from 'mongoose'
 
+export type NotificationKind = 'employee_joined' | 'interview_ended' | 'document_ready' | 'document_failed'
+export type NotificationDelivery = 'immediate' | 'digest' | 'off'
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ['employee_joined', 'interview_ended', 'document_ready', 'document_failed']
+export const NOTIFICATION_DELIVERIES: NotificationDelivery[] = ['immediate', 'digest', 'off']
+
+export interface INotificationPreferences {
+  employee_joined: NotificationDelivery
+  interview_ended: NotificationDelivery
+  document_ready: NotificationDelivery
+  document_failed: NotificationDelivery
+  // Hour of the day (EMAIL_TIMEZONE) the daily digest goes out
+  digestHour: number
+}
+
 export interface IUser extends Document {
   email: string
   name: string
   role: 'manager' | 'admin'
+  // Active workspace — memberships live in WorkspaceMember
   workspaceId: mongoose.Types.ObjectId | null
+  notificationPreferences: INotificationPreferences
   createdAt: Date
   updatedAt: Date
 }
@@ -31,6 +48,13 @@ const userSchema = new Schema<IUser>(
       type: Schema.Types.ObjectId,
       ref: 'Workspace',
       default: null
+    },
+    notificationPreferences: {
+      employee_joined: { type: String, enum: NOTIFICATION_DELIVERIES, default: 'digest' },
+      interview_ended: { type: String, enum: NOTIFICATION_DELIVERIES, default: 'digest' },
+      document_ready: { type: String, enum: NOTIFICATION_DELIVERIES, default: 'immediate' },
+      document_failed: { type: String, enum: NOTIFICATION_DELIVERIES, default: 'immediate' },
+      digestHour: { type: Number, min: 0, max: 23, default: 8 }
     }
   },
   { timestamps: true }
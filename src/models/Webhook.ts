@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export type WebhookEvent =
+  | 'session.created'
+  | 'session.started'
+  | 'session.ended'
+  | 'document.completed'
+  | 'document.failed'
+  | 'document.edited'
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'session.created',
+  'session.started',
+  'session.ended',
+  'document.completed',
+  'document.failed',
+  'document.edited'
+]
+
+export interface IWebhook extends Document {
+  workspaceId: mongoose.Types.ObjectId
+  url: string
+  description: string
+  events: WebhookEvent[]
+  // HMAC-SHA256 key for the X-KT-Signature header — only returned on create and rotate
+  secret: string
+  active: boolean
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const webhookSchema = new Schema<IWebhook>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    url: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    description: {
+      type: String,
+      default: ''
+    },
+    events: {
+      type: [String],
+      enum: WEBHOOK_EVENTS,
+      default: []
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false
+    },
+    active: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  { timestamps: true }
+)
+
+webhookSchema.index({ workspaceId: 1, active: 1 })
+
+export default mongoose.model<IWebhook>('Webhook', webhookSchema)
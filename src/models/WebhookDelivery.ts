@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed' | 'skipped'
+
+export interface IWebhookAttempt {
+  at: Date
+  responseStatus: number | null
+  // First few hundred characters of the receiver's reply, for debugging
+  responseBody: string | null
+  error: string | null
+  durationMs: number
+}
+
+// One event sent to one webhook — kept as the delivery log, with every attempt
+export interface IWebhookDelivery extends Document {
+  webhookId: mongoose.Types.ObjectId
+  workspaceId: mongoose.Types.ObjectId
+  event: string
+  payload: Record<string, any>
+  status: WebhookDeliveryStatus
+  attempts: IWebhookAttempt[]
+  deliveredAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const webhookAttemptSchema = new Schema<IWebhookAttempt>(
+  {
+    at: { type: Date, required: true },
+    responseStatus: { type: Number, default: null },
+    responseBody: { type: String, default: null },
+    error: { type: String, default: null },
+    durationMs: { type: Number, required: true }
+  },
+  { _id: false }
+)
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: true
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    event: {
+      type: String,
+      required: true
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed', 'skipped'],
+      default: 'pending'
+    },
+    attempts: {
+      type: [webhookAttemptSchema],
+      default: []
+    },
+    deliveredAt: {
+      type: Date,
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 })
+// The log is for debugging recent integrations, not an archive
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 })
+
+export default mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema)
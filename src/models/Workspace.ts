@@ -1,9 +1,12 @@
 import mongoose, { Document, Schema } from 'mongoose'
+import { LLMProviderName, LLM_PROVIDER_NAMES } from '../services/llm/types'
 
 export interface IWorkspace extends Document {
   name: string
   ownerId: mongoose.Types.ObjectId
   plan: 'free' | 'pro' | 'enterprise'
+  llmProvider: LLMProviderName | null
+  llmModel: string | null
   createdAt: Date
   updatedAt: Date
 }
@@ -24,6 +27,16 @@ const workspaceSchema = new Schema<IWorkspace>(
       type: String,
       enum: ['free', 'pro', 'enterprise'],
       default: 'free'
+    },
+    // null → use LLM_PROVIDER / LLM_MODEL from the environment
+    llmProvider: {
+      type: String,
+      enum: [...LLM_PROVIDER_NAMES, null],
+      default: null
+    },
+    llmModel: {
+      type: String,
+      default: null
     }
   },
   { timestamps: true }
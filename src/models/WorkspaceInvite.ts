@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { MemberRole, MEMBER_ROLES } from '../config/permissions'
+
+export type InviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked'
+
+export interface IWorkspaceInvite extends Document {
+  workspaceId: mongoose.Types.ObjectId
+  email: string
+  role: MemberRole
+  invitedBy: mongoose.Types.ObjectId
+  status: InviteStatus
+  expiresAt: Date
+  respondedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const workspaceInviteSchema = new Schema<IWorkspaceInvite>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true
+    },
+    role: {
+      type: String,
+      enum: MEMBER_ROLES,
+      default: 'manager'
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'declined', 'revoked'],
+      default: 'pending'
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    respondedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+// One open invite per address per workspace
+workspaceInviteSchema.index(
+  { workspaceId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+)
+workspaceInviteSchema.index({ email: 1, status: 1 })
+
+export default mongoose.model<IWorkspaceInvite>('WorkspaceInvite', workspaceInviteSchema)
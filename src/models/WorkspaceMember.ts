@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose'
+import { MemberRole, MEMBER_ROLES } from '../config/permissions'
+
+export interface IWorkspaceMember extends Document {
+  workspaceId: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  role: MemberRole
+  invitedBy: mongoose.Types.ObjectId | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const workspaceMemberSchema = new Schema<IWorkspaceMember>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    role: {
+      type: String,
+      enum: MEMBER_ROLES,
+      default: 'manager'
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  },
+  { timestamps: true }
+)
+
+workspaceMemberSchema.index({ workspaceId: 1, userId: 1 }, { unique: true })
+workspaceMemberSchema.index({ userId: 1 })
+
+export default mongoose.model<IWorkspaceMember>('WorkspaceMember', workspaceMemberSchema)
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+// Monthly counters for plan quotas that can't be recounted from live data
+export interface IWorkspaceUsage extends Document {
+  workspaceId: mongoose.Types.ObjectId
+  // Calendar month in UTC, e.g. "2026-10"
+  period: string
+  sessionsCreated: number
+  regenerations: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+const workspaceUsageSchema = new Schema<IWorkspaceUsage>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      required: true
+    },
+    period: {
+      type: String,
+      required: true
+    },
+    sessionsCreated: {
+      type: Number,
+      default: 0
+    },
+    regenerations: {
+      type: Number,
+      default: 0
+    }
+  },
+  { timestamps: true }
+)
+
+workspaceUsageSchema.index({ workspaceId: 1, period: 1 }, { unique: true })
+
+export default mongoose.model<IWorkspaceUsage>('WorkspaceUsage', workspaceUsageSchema)
@@ -1,5 +1,12 @@
 import { Router } from 'express'
-import { sendOTP, verifyOTP, logout, getMe } from '../controllers/auth.controller'
+import {
+  sendOTP,
+  verifyOTP,
+  logout,
+  getMe,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../controllers/auth.controller'
 import authMiddleware from '../middleware/auth.middleware'
 
 const router = Router()
@@ -8,5 +15,7 @@ router.post('/send-otp', sendOTP)
 router.post('/verify-otp', verifyOTP)
 router.post('/logout', logout)
 router.get('/me', authMiddleware, getMe)
+router.get('/me/notifications', authMiddleware, getNotificationPreferences)
+router.patch('/me/notifications', authMiddleware, updateNotificationPreferences)
 
 export default router
\ No newline at end of file
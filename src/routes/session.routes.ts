@@ -1,31 +1,77 @@
-import { Router } from 'express'
+import express, { Router } from 'express'
 import {
   getSessions,
   getSession,
+  getSessionFrame,
   createSession,
+  createFollowUpSession,
+  rescheduleSession,
+  cancelSession,
+  extendSession,
+  revokeSessionInvite,
+  rotateSessionInvite,
   deleteSession,
   getSessionByToken,
-  uploadSessionAudio,
-  audioUpload,
   generateSessionDocument,
   saveDocumentHtml,
   finalizeSessionByInvite,
 } from '../controllers/session.controller'
+import {
+  initiateAudioUpload,
+  getAudioUpload,
+  uploadAudioPart,
+  completeAudioUpload,
+  abortAudioUpload,
+  AUDIO_PART_BYTES,
+} from '../controllers/upload.controller'
+import { getSessionJobs, retrySessionJob } from '../controllers/job.controller'
+import { exportSession } from '../controllers/export.controller'
+import { searchSessions } from '../controllers/search.controller'
+import {
+  getDocumentVersions,
+  diffDocumentVersions,
+  getDocumentVersion,
+  restoreDocumentVersion,
+} from '../controllers/version.controller'
 import authMiddleware from '../middleware/auth.middleware'
+import requirePermission from '../middleware/permission.middleware'
 
 const router = Router()
 
 // Public — employee invite link
 router.get('/invite/:token', getSessionByToken)
-router.post('/upload-audio', audioUpload.single('audio'), uploadSessionAudio)
+router.post('/audio-uploads', initiateAudioUpload)
+router.get('/audio-uploads/:uploadId', getAudioUpload)
+router.put(
+  '/audio-uploads/:uploadId/parts/:partNumber',
+  express.raw({ type: () => true, limit: AUDIO_PART_BYTES + 1024 }),
+  uploadAudioPart
+)
+router.post('/audio-uploads/:uploadId/complete', completeAudioUpload)
+router.delete('/audio-uploads/:uploadId', abortAudioUpload)
 router.post('/finalize', finalizeSessionByInvite)
 
-// Protected — manager only
-router.get('/', authMiddleware, getSessions)
-router.get('/:id', authMiddleware, getSession)
-router.post('/', authMiddleware, createSession)
-router.delete('/:id', authMiddleware, deleteSession)
-router.post('/:id/generate', authMiddleware, generateSessionDocument)
-router.patch('/:id/document', authMiddleware, saveDocumentHtml)
+// Protected — workspace members, gated per permission
+router.get('/', authMiddleware, requirePermission('session:read'), getSessions)
+router.get('/search', authMiddleware, requirePermission('session:read'), searchSessions)
+router.get('/:id', authMiddleware, requirePermission('session:read'), getSession)
+router.get('/:id/frames/:timestamp', authMiddleware, requirePermission('session:read'), getSessionFrame)
+router.post('/', authMiddleware, requirePermission('session:create'), createSession)
+router.post('/:id/follow-up', authMiddleware, requirePermission('session:create'), createFollowUpSession)
+router.patch('/:id/schedule', authMiddleware, requirePermission('session:create'), rescheduleSession)
+router.post('/:id/cancel', authMiddleware, requirePermission('session:create'), cancelSession)
+router.post('/:id/extend', authMiddleware, requirePermission('session:create'), extendSession)
+router.post('/:id/invite/revoke', authMiddleware, requirePermission('session:create'), revokeSessionInvite)
+router.post('/:id/invite/rotate', authMiddleware, requirePermission('session:create'), rotateSessionInvite)
+router.delete('/:id', authMiddleware, requirePermission('session:delete'), deleteSession)
+router.post('/:id/generate', authMiddleware, requirePermission('document:generate'), generateSessionDocument)
+router.patch('/:id/document', authMiddleware, requirePermission('document:edit'), saveDocumentHtml)
+router.get('/:id/export', authMiddleware, requirePermission('session:read'), exportSession)
+router.get('/:id/versions', authMiddleware, requirePermission('session:read'), getDocumentVersions)
+router.get('/:id/versions/diff', authMiddleware, requirePermission('session:read'), diffDocumentVersions)
+router.get('/:id/versions/:version', authMiddleware, requirePermission('session:read'), getDocumentVersion)
+router.post('/:id/versions/:version/restore', authMiddleware, requirePermission('document:edit'), restoreDocumentVersion)
+router.get('/:id/jobs', authMiddleware, requirePermission('session:read'), getSessionJobs)
+router.post('/:id/jobs/:jobId/retry', authMiddleware, requirePermission('document:generate'), retrySessionJob)
 
 export default router
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { Router } from 'express'
+import { getStoredObject } from '../controllers/storage.controller'
+
+const router = Router()
+
+// Public — access is granted by the HMAC signature in the query string
+router.get('/object', getStoredObject)
+
+export default router
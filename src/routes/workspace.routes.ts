@@ -0,0 +1,75 @@
+import { Router } from 'express'
+import {
+  getWorkspaces,
+  switchWorkspace,
+  getCurrentWorkspace,
+  getCurrentWorkspaceUsage,
+  updateWorkspaceLLM,
+  getWorkspaceMembers,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+  inviteWorkspaceMember,
+  getWorkspaceInvites,
+  revokeWorkspaceInvite,
+  getMyInvites,
+  respondToInvite,
+} from '../controllers/workspace.controller'
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  rotateWebhookSecret,
+  testWebhook,
+  getWebhookDeliveries,
+} from '../controllers/webhook.controller'
+import { getAnalytics } from '../controllers/analytics.controller'
+import {
+  getTemplates,
+  getTemplateVersions,
+  getTemplateVersion,
+  saveTemplate,
+  previewTemplate,
+} from '../controllers/template.controller'
+import authMiddleware from '../middleware/auth.middleware'
+import requirePermission from '../middleware/permission.middleware'
+
+const router = Router()
+
+router.get('/', authMiddleware, getWorkspaces)
+router.post('/switch', authMiddleware, switchWorkspace)
+
+// Invites addressed to the signed-in user
+router.get('/invites', authMiddleware, getMyInvites)
+router.post('/invites/:inviteId/accept', authMiddleware, respondToInvite('accept'))
+router.post('/invites/:inviteId/decline', authMiddleware, respondToInvite('decline'))
+
+// Active workspace
+router.get('/current', authMiddleware, getCurrentWorkspace)
+router.get('/current/usage', authMiddleware, getCurrentWorkspaceUsage)
+router.patch('/current/llm', authMiddleware, requirePermission('workspace:settings'), updateWorkspaceLLM)
+router.get('/current/analytics', authMiddleware, requirePermission('session:read'), getAnalytics)
+router.get('/current/members', authMiddleware, requirePermission('members:read'), getWorkspaceMembers)
+router.patch('/current/members/:userId', authMiddleware, requirePermission('members:manage'), updateWorkspaceMemberRole)
+router.delete('/current/members/:userId', authMiddleware, removeWorkspaceMember) // self-leave or members:manage
+router.get('/current/invites', authMiddleware, requirePermission('members:manage'), getWorkspaceInvites)
+router.post('/current/invites', authMiddleware, requirePermission('members:manage'), inviteWorkspaceMember)
+router.delete('/current/invites/:inviteId', authMiddleware, requirePermission('members:manage'), revokeWorkspaceInvite)
+
+// Outgoing webhooks
+router.get('/current/webhooks', authMiddleware, requirePermission('workspace:settings'), getWebhooks)
+router.post('/current/webhooks', authMiddleware, requirePermission('workspace:settings'), createWebhook)
+router.patch('/current/webhooks/:webhookId', authMiddleware, requirePermission('workspace:settings'), updateWebhook)
+router.delete('/current/webhooks/:webhookId', authMiddleware, requirePermission('workspace:settings'), deleteWebhook)
+router.post('/current/webhooks/:webhookId/rotate-secret', authMiddleware, requirePermission('workspace:settings'), rotateWebhookSecret)
+router.post('/current/webhooks/:webhookId/test', authMiddleware, requirePermission('workspace:settings'), testWebhook)
+router.get('/current/webhooks/:webhookId/deliveries', authMiddleware, requirePermission('workspace:settings'), getWebhookDeliveries)
+
+// Interview templates — one versioned template per interview type
+router.get('/current/templates', authMiddleware, requirePermission('session:read'), getTemplates)
+router.post('/current/templates/preview', authMiddleware, requirePermission('session:create'), previewTemplate)
+router.get('/current/templates/:interviewType/versions', authMiddleware, requirePermission('session:read'), getTemplateVersions)
+router.get('/current/templates/:interviewType/versions/:version', authMiddleware, requirePermission('session:read'), getTemplateVersion)
+router.put('/current/templates/:interviewType', authMiddleware, requirePermission('workspace:settings'), saveTemplate)
+
+export default router
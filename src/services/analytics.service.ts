@@ -0,0 +1,204 @@
+import mongoose, { PipelineStage } from 'mongoose'
+import Session from '../models/Session'
+
+export type AnalyticsInterval = 'day' | 'week' | 'month'
+
+export const ANALYTICS_INTERVALS: AnalyticsInterval[] = ['day', 'week', 'month']
+
+export interface AnalyticsFilter {
+  workspaceId: mongoose.Types.ObjectId | string
+  from: Date | null
+  to: Date | null
+  createdBy: mongoose.Types.ObjectId | string | null
+  interval: AnalyticsInterval
+  timezone: string
+}
+
+const TOP_ITEMS = 10
+
+// ISO weeks, so a week bucket never straddles two labels
+const PERIOD_FORMATS: Record<AnalyticsInterval, string> = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m',
+}
+
+const round = (value: number | null | undefined, digits = 1): number | null =>
+  value === null || value === undefined ? null : Number(value.toFixed(digits))
+
+const rate = (part: number, whole: number): number | null => (whole > 0 ? round(part / whole, 3) : null)
+
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Model-written strings rarely repeat exactly — fold case, whitespace and trailing punctuation
+// so the same gap raised in two documents counts once
+function topStrings(field: string): PipelineStage.FacetPipelineStage[] {
+  return [
+    { $unwind: `$${field}` },
+    {
+      $project: {
+        text: {
+          $trim: {
+            input: { $toLower: { $trim: { input: `$${field}` } } },
+            chars: ' .;:!',
+          },
+        },
+        original: `$${field}`,
+        sessionId: '$_id',
+      },
+    },
+    { $match: { text: { $ne: '' } } },
+    {
+      $group: {
+        _id: '$text',
+        count: { $sum: 1 },
+        example: { $first: '$original' },
+        sessionIds: { $addToSet: '$sessionId' },
+      },
+    },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: TOP_ITEMS },
+    { $project: { _id: 0, text: '$example', count: 1, sessions: { $size: '$sessionIds' } } },
+  ]
+}
+
+export async function getWorkspaceAnalytics(filter: AnalyticsFilter) {
+  const match: Record<string, any> = { workspaceId: new mongoose.Types.ObjectId(String(filter.workspaceId)) }
+  if (filter.from || filter.to) {
+    match.createdAt = {}
+    if (filter.from) match.createdAt.$gte = filter.from
+    if (filter.to) match.createdAt.$lt = filter.to
+  }
+  if (filter.createdBy) match.createdBy = new mongoose.Types.ObjectId(String(filter.createdBy))
+
+  const [result] = await Session.aggregate([
+    { $match: match },
+    {
+      $facet: {
+        byStatus: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+        byType: [{ $group: { _id: '$interviewType', count: { $sum: 1 } } }],
+        overTime: [
+          {
+            $group: {
+              _id: {
+                period: {
+                  $dateToString: { date: '$createdAt', format: PERIOD_FORMATS[filter.interval], timezone: filter.timezone },
+                },
+                status: '$status',
+                interviewType: '$interviewType',
+              },
+              count: { $sum: 1 },
+            },
+          },
+          { $sort: { '_id.period': 1 } },
+        ],
+        duration: [
+          { $match: { startedAt: { $ne: null }, endedAt: { $ne: null } } },
+          {
+            $project: {
+              interviewType: 1,
+              planned: '$duration',
+              actual: { $divide: [{ $subtract: ['$endedAt', '$startedAt'] }, 60 * 1000] },
+            },
+          },
+          // Clock skew or a bad resume can leave endedAt before startedAt
+          { $match: { actual: { $gte: 0 } } },
+          {
+            $group: {
+              _id: '$interviewType',
+              sessions: { $sum: 1 },
+              avgActualMinutes: { $avg: '$actual' },
+              avgPlannedMinutes: { $avg: '$planned' },
+              overran: { $sum: { $cond: [{ $gt: ['$actual', '$planned'] }, 1, 0] } },
+            },
+          },
+        ],
+        outcomes: [
+          {
+            $group: {
+              _id: null,
+              total: { $sum: 1 },
+              started: { $sum: { $cond: [{ $ne: [{ $ifNull: ['$startedAt', null] }, null] }, 1, 0] } },
+              completed: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
+              failed: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+              finalized: { $sum: { $cond: [{ $ne: [{ $ifNull: ['$finalizedAs', null] }, null] }, 1, 0] } },
+              generatedPartial: { $sum: { $cond: [{ $eq: ['$finalizedAs', 'generate_partial'] }, 1, 0] } },
+              discarded: { $sum: { $cond: [{ $eq: ['$finalizedAs', 'discard'] }, 1, 0] } },
+            },
+          },
+        ],
+        gaps: topStrings('document.gaps'),
+        handoverRisks: topStrings('document.handoverRisks'),
+      },
+    },
+  ])
+
+  const counts = (rows: { _id: string; count: number }[]) =>
+    Object.fromEntries(rows.map((r) => [r._id, r.count]))
+
+  type Period = { period: string; total: number; byStatus: Record<string, number>; byType: Record<string, number> }
+  const periods = new Map<string, Period>()
+  for (const row of result.overTime) {
+    const { period, status, interviewType } = row._id
+    const bucket: Period = periods.get(period) || { period, total: 0, byStatus: {}, byType: {} }
+    bucket.total += row.count
+    bucket.byStatus[status] = (bucket.byStatus[status] || 0) + row.count
+    bucket.byType[interviewType] = (bucket.byType[interviewType] || 0) + row.count
+    periods.set(period, bucket)
+  }
+
+  const durationRows: any[] = result.duration
+  const timed = durationRows.reduce((sum, r) => sum + r.sessions, 0)
+  const weighted = (field: string) =>
+    timed > 0 ? durationRows.reduce((sum, r) => sum + r[field] * r.sessions, 0) / timed : null
+  const avgActual = weighted('avgActualMinutes')
+  const avgPlanned = weighted('avgPlannedMinutes')
+
+  const outcomes = result.outcomes[0] || {
+    total: 0, started: 0, completed: 0, failed: 0, finalized: 0, generatedPartial: 0, discarded: 0,
+  }
+
+  return {
+    range: { from: filter.from, to: filter.to, interval: filter.interval, timezone: filter.timezone },
+    totals: {
+      sessions: outcomes.total,
+      byStatus: counts(result.byStatus),
+      byType: counts(result.byType),
+    },
+    overTime: Array.from(periods.values()),
+    duration: {
+      sessions: timed,
+      avgActualMinutes: round(avgActual),
+      avgPlannedMinutes: round(avgPlanned),
+      // Actual ÷ planned — above 1 means interviews run long
+      actualToPlannedRatio: avgActual !== null && avgPlanned ? round(avgActual / avgPlanned, 2) : null,
+      overranRate: rate(durationRows.reduce((sum, r) => sum + r.overran, 0), timed),
+      byType: durationRows.map((r) => ({
+        interviewType: r._id,
+        sessions: r.sessions,
+        avgActualMinutes: round(r.avgActualMinutes),
+        avgPlannedMinutes: round(r.avgPlannedMinutes),
+      })),
+    },
+    outcomes: {
+      started: outcomes.started,
+      completed: outcomes.completed,
+      failed: outcomes.failed,
+      completionRate: rate(outcomes.completed, outcomes.started),
+      // From the employee's finalize screen after an interrupted interview
+      finalized: outcomes.finalized,
+      generatedPartial: outcomes.generatedPartial,
+      discarded: outcomes.discarded,
+      discardRate: rate(outcomes.discarded, outcomes.finalized),
+    },
+    topGaps: result.gaps,
+    topHandoverRisks: result.handoverRisks,
+  }
+}
@@ -0,0 +1,76 @@
+import { ITopicCoverage, TopicStatus } from '../models/Session'
+import { LLMProvider } from './llm'
+
+export interface CoverageTurn {
+  speaker: string
+  text: string
+}
+
+const STATUS_RANK: Record<TopicStatus, number> = { not_started: 0, partial: 1, covered: 2 }
+
+// Keeps stored progress for topics that still exist, adds any new ones as not started
+export function initialCoverage(topics: string[], existing: ITopicCoverage[] = []): ITopicCoverage[] {
+  return topics.map((topic) =>
+    existing.find((c) => c.topic === topic) || { topic, status: 'not_started', updatedAt: null }
+  )
+}
+
+function isTopicStatus(value: unknown): value is TopicStatus {
+  return value === 'not_started' || value === 'partial' || value === 'covered'
+}
+
+// Classifies the latest exchange against the topic list. Status only ever moves forward —
+// a later tangent never marks a covered topic as partial again.
+export async function classifyExchange(
+  llm: LLMProvider,
+  session: any,
+  coverage: ITopicCoverage[],
+  turns: CoverageTurn[]
+): Promise<{ coverage: ITopicCoverage[]; changed: boolean }> {
+  if (coverage.length === 0 || turns.length === 0) return { coverage, changed: false }
+
+  const prompt = `You are tracking which topics of a knowledge-transfer interview have been covered.
+
+ROLE: ${session.role}
+INTERVIEW TYPE: ${session.interviewType}
+
+TOPICS (number. [current status] topic):
+${coverage.map((c, i) => `${i + 1}. [${c.status}] ${c.topic}`).join('\n')}
+
+LATEST EXCHANGE:
+${turns.map((t) => `${t.speaker.toUpperCase()}: ${t.text}`).join('\n')}
+
+For each topic the EMPLOYEE meaningfully discussed in this exchange, decide:
+- "partial": touched on, but a successor could not yet do the work from what was said
+- "covered": explained thoroughly enough to hand over, including edge cases
+
+Only list topics that changed. Return ONLY valid JSON:
+{ "updates": [{ "topic": 1, "status": "partial" }] }`
+
+  const text = await llm.complete({
+    purpose: 'topic_coverage',
+    messages: [
+      { role: 'system', content: 'You classify interview transcripts. Always return valid JSON only, no markdown fences.' },
+      { role: 'user', content: prompt },
+    ],
+    json: true,
+    temperature: 0,
+  })
+
+  const updates: any[] = JSON.parse(text)?.updates || []
+  const next = coverage.map((c) => ({ ...c }))
+  let changed = false
+
+  for (const update of updates) {
+    const index = Number(update?.topic) - 1
+    const target = next[index]
+    if (!target || !isTopicStatus(update.status)) continue
+    if (STATUS_RANK[update.status as TopicStatus] > STATUS_RANK[target.status]) {
+      target.status = update.status
+      target.updatedAt = new Date()
+      changed = true
+    }
+  }
+
+  return { coverage: next, changed }
+}
@@ -0,0 +1,475 @@
+import mongoose from 'mongoose'
+import { EnqueuedJob, enqueueJob, JobHandler } from './job.service'
+import { ensureBaselineVersion, recordDocumentVersion } from './version.service'
+import { getLLMProvider, LLMProvider } from './llm'
+import { figureParts, resolveSectionFigures, selectFigures } from './evidence.service'
+import { emitWebhookEvent, sessionEventData } from './webhook.service'
+import { notifyManager } from './notification.service'
+import { documentOutlineSection, sessionTemplate, TemplateContent } from './template.service'
+import chunkTranscript, {
+  TranscriptChunk,
+  estimateTokens,
+  formatOffset,
+  formatTranscriptLine,
+} from '../utils/chunkTranscript'
+
+// ── Convert document JSON → clean HTML for the Notion-like editor ────────────
+export function documentToHtml(doc: any): string {
+  function esc(s: string): string {
+    return String(s)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+  }
+  function attr(s: string): string {
+    return esc(s).replace(/"/g, '&quot;')
+  }
+  function paragraphs(text: string): string {
+    return text
+      .split(/\n+/)
+      .filter(Boolean)
+      .map((p) => `<p>${esc(p)}</p>`)
+      .join('')
+  }
+
+  let html = `<h1>${esc(doc.title)}</h1>`
+
+  if (doc.executiveSummary) {
+    html += `<h2>Executive Summary</h2>${paragraphs(doc.executiveSummary)}`
+  }
+
+  if (Array.isArray(doc.topicCoverage) && doc.topicCoverage.length > 0) {
+    const labels: Record<string, string> = { covered: 'Covered', partial: 'Partially covered', not_started: 'Not covered' }
+    html += `<h2>Topic Coverage</h2><ul>`
+    for (const c of doc.topicCoverage) {
+      html += `<li><strong>${labels[c.status] || esc(c.status)}:</strong> ${esc(c.topic)}</li>`
+    }
+    html += `</ul>`
+  }
+
+  if (Array.isArray(doc.sections)) {
+    for (const section of doc.sections) {
+      html += `<h2>${esc(section.heading)}</h2>`
+      if (section.content) html += paragraphs(section.content)
+      for (const fig of Array.isArray(section.figures) ? section.figures : []) {
+        const label = `Figure ${fig.figure}${fig.caption ? ` — ${fig.caption}` : ''}`
+        html += `<img src="${attr(fig.src)}" alt="${attr(label)}"><p><em>${esc(label)}</em></p>`
+      }
+      if (section.gaps) {
+        html += `<blockquote><strong>Gaps: </strong>${esc(section.gaps)}</blockquote>`
+      }
+    }
+  }
+
+  if (Array.isArray(doc.criticalKnowledge) && doc.criticalKnowledge.length > 0) {
+    html += `<h2>Critical Knowledge</h2><ul>`
+    for (const item of doc.criticalKnowledge) html += `<li>${esc(item)}</li>`
+    html += `</ul>`
+  }
+
+  if (Array.isArray(doc.handoverRisks) && doc.handoverRisks.length > 0) {
+    html += `<h2>Handover Risks</h2><ul>`
+    for (const risk of doc.handoverRisks) html += `<li>${esc(risk)}</li>`
+    html += `</ul>`
+  }
+
+  if (Array.isArray(doc.gaps) && doc.gaps.length > 0) {
+    html += `<h2>Knowledge Gaps</h2><ul>`
+    for (const gap of doc.gaps) html += `<li>${esc(gap)}</li>`
+    html += `</ul>`
+  }
+
+  if (Array.isArray(doc.recommendedActions) && doc.recommendedActions.length > 0) {
+    html += `<h2>Recommended Next Steps</h2><ol>`
+    for (const action of doc.recommendedActions) html += `<li>${esc(action)}</li>`
+    html += `</ol>`
+  }
+
+  if (Array.isArray(doc.followUpQuestions) && doc.followUpQuestions.length > 0) {
+    html += `<h2>Follow-up Questions</h2><ol>`
+    for (const q of doc.followUpQuestions) html += `<li>${esc(q)}</li>`
+    html += `</ol>`
+  }
+
+  return html
+}
+
+// ── Resolve the LLM provider pinned on the session's workspace ──────────────
+export async function getWorkspaceLLMProvider(workspaceId: any, db: any): Promise<LLMProvider> {
+  const workspace = workspaceId
+    ? await db.collection('workspaces').findOne({ _id: workspaceId })
+    : null
+  return getLLMProvider({
+    provider: workspace?.llmProvider || null,
+    model: workspace?.llmModel || null,
+  })
+}
+
+// ── Token budgeting for long sessions ───────────────────────────────────────
+// Transcripts under the budget go to the model verbatim. Longer ones are split into
+// time/token windows, each summarised into notes (map), the notes merged by topic (reduce)
+// and — if still too large — condensed before the final document pass.
+const TRANSCRIPT_TOKEN_BUDGET = Number(process.env.DOC_TRANSCRIPT_TOKEN_BUDGET) || 30000
+const CHUNK_TOKENS = Number(process.env.DOC_CHUNK_TOKENS) || 8000
+const CHUNK_WINDOW_MS = (Number(process.env.DOC_CHUNK_MINUTES) || 15) * 60 * 1000
+
+interface TopicNotes {
+  topic: string
+  notes: string[]
+}
+
+interface TranscriptNotes {
+  topics: TopicNotes[]
+  criticalKnowledge: string[]
+  handoverRisks: string[]
+  gaps: string[]
+  openQuestions: string[]
+}
+
+const NOTES_JSON_SHAPE = `{
+  "topics": [{ "topic": "Topic name — reuse the session topic names where they fit", "notes": ["Specific facts, steps, names, numbers and edge cases"] }],
+  "criticalKnowledge": ["Hard-to-discover things only this person knows"],
+  "handoverRisks": ["Risks if this is not transferred"],
+  "gaps": ["Things left vague or unexplained"],
+  "openQuestions": ["Questions worth asking in a follow-up"]
+}`
+
+const JSON_SYSTEM_MESSAGE = {
+  role: 'system' as const,
+  content: 'You are a technical documentation specialist. Always return valid JSON only, no markdown fences.',
+}
+
+function sessionDetails(session: any): string {
+  return `SESSION DETAILS:
+- Employee: ${session.employeeName}
+- Role: ${session.role}
+- Interview Type: ${session.interviewType}
+- Goal: ${session.interviewGoal}
+- Topics to cover: ${session.topics.join(', ')}`
+}
+
+function emptyNotes(): TranscriptNotes {
+  return { topics: [], criticalKnowledge: [], handoverRisks: [], gaps: [], openQuestions: [] }
+}
+
+function normaliseNotes(raw: any): TranscriptNotes {
+  const strings = (v: any): string[] => (Array.isArray(v) ? v.filter((x) => typeof x === 'string') : [])
+  return {
+    topics: Array.isArray(raw?.topics)
+      ? raw.topics
+          .filter((t: any) => t && typeof t.topic === 'string')
+          .map((t: any) => ({ topic: t.topic, notes: strings(t.notes) }))
+      : [],
+    criticalKnowledge: strings(raw?.criticalKnowledge),
+    handoverRisks: strings(raw?.handoverRisks),
+    gaps: strings(raw?.gaps),
+    openQuestions: strings(raw?.openQuestions),
+  }
+}
+
+// Reduce step — plain code, no model call: topics merged case-insensitively, duplicates dropped
+function mergeNotes(parts: TranscriptNotes[]): TranscriptNotes {
+  const merged = emptyNotes()
+  const topics = new Map<string, TopicNotes>()
+  const unique = (list: string[]) => Array.from(new Set(list))
+
+  for (const part of parts) {
+    for (const t of part.topics) {
+      const key = t.topic.trim().toLowerCase()
+      const existing = topics.get(key)
+      if (existing) existing.notes.push(...t.notes)
+      else topics.set(key, { topic: t.topic.trim(), notes: [...t.notes] })
+    }
+    merged.criticalKnowledge.push(...part.criticalKnowledge)
+    merged.handoverRisks.push(...part.handoverRisks)
+    merged.gaps.push(...part.gaps)
+    merged.openQuestions.push(...part.openQuestions)
+  }
+
+  merged.topics = Array.from(topics.values()).map((t) => ({ topic: t.topic, notes: unique(t.notes) }))
+  merged.criticalKnowledge = unique(merged.criticalKnowledge)
+  merged.handoverRisks = unique(merged.handoverRisks)
+  merged.gaps = unique(merged.gaps)
+  merged.openQuestions = unique(merged.openQuestions)
+  return merged
+}
+
+function renderNotes(notes: TranscriptNotes): string {
+  const list = (heading: string, items: string[]) =>
+    items.length > 0 ? `\n${heading}:\n${items.map((i) => `- ${i}`).join('\n')}\n` : ''
+
+  return [
+    ...notes.topics.map((t) => `Topic: ${t.topic}\n${t.notes.map((n) => `- ${n}`).join('\n')}\n`),
+    list('Critical knowledge', notes.criticalKnowledge),
+    list('Handover risks', notes.handoverRisks),
+    list('Gaps', notes.gaps),
+    list('Open questions', notes.openQuestions),
+  ].join('\n')
+}
+
+// Map step — one model call per transcript window
+async function summariseChunk(
+  llm: LLMProvider,
+  session: any,
+  chunk: TranscriptChunk,
+  totalChunks: number
+): Promise<TranscriptNotes> {
+  const prompt = `You are extracting knowledge-transfer notes from one part of a long interview transcript.
+
+${sessionDetails(session)}
+
+TRANSCRIPT PART ${chunk.index + 1} OF ${totalChunks} (${formatOffset(chunk.startMs)}–${formatOffset(chunk.endMs)}):
+${chunk.text}
+
+Capture everything a successor would need from this part only. Be specific; do not summarise away details.
+
+Return ONLY valid JSON with this exact structure:
+${NOTES_JSON_SHAPE}`
+
+  const text = await llm.complete({
+    purpose: 'kt_chunk_notes',
+    messages: [JSON_SYSTEM_MESSAGE, { role: 'user', content: prompt }],
+    json: true,
+    temperature: 0.2,
+  })
+  return normaliseNotes(JSON.parse(text))
+}
+
+// Only needed when even the merged notes exceed the budget — condensed in budget-sized groups of topics
+async function condenseNotes(llm: LLMProvider, session: any, notes: TranscriptNotes): Promise<TranscriptNotes> {
+  const groups: TranscriptNotes[] = []
+  let current = emptyNotes()
+  for (const topic of notes.topics) {
+    const candidate = { ...current, topics: [...current.topics, topic] }
+    if (current.topics.length > 0 && estimateTokens(renderNotes(candidate)) > CHUNK_TOKENS) {
+      groups.push(current)
+      current = emptyNotes()
+    }
+    current.topics.push(topic)
+  }
+  groups.push(current)
+
+  const condensed: TranscriptNotes[] = []
+  for (const group of groups) {
+    const prompt = `These are knowledge-transfer notes collected across a long interview. Condense them to roughly half their length, keeping every concrete fact, name, number and edge case.
+
+${sessionDetails(session)}
+
+NOTES JSON:
+${JSON.stringify(group)}
+
+Return ONLY valid JSON with this exact structure:
+${NOTES_JSON_SHAPE}`
+
+    const text = await llm.complete({
+      purpose: 'kt_notes_condense',
+      messages: [JSON_SYSTEM_MESSAGE, { role: 'user', content: prompt }],
+      json: true,
+      temperature: 0.2,
+    })
+    condensed.push(normaliseNotes(JSON.parse(text)))
+  }
+
+  // Session-wide lists are kept as-is rather than sent through the model again
+  return {
+    ...mergeNotes(condensed),
+    criticalKnowledge: notes.criticalKnowledge,
+    handoverRisks: notes.handoverRisks,
+    gaps: notes.gaps,
+    openQuestions: notes.openQuestions,
+  }
+}
+
+// Verbatim transcript when it fits the budget, map-reduced notes otherwise
+async function buildTranscriptSource(
+  llm: LLMProvider,
+  session: any,
+  tag: string
+): Promise<{ label: string; text: string }> {
+  const fullText = session.transcript.map(formatTranscriptLine).join('\n')
+  if (estimateTokens(fullText) <= TRANSCRIPT_TOKEN_BUDGET) {
+    return { label: 'TRANSCRIPT', text: fullText }
+  }
+
+  const chunks = chunkTranscript(session.transcript, CHUNK_TOKENS, CHUNK_WINDOW_MS)
+  console.log(`[${tag}] Long transcript (~${estimateTokens(fullText)} tokens) — summarising ${chunks.length} parts`)
+
+  const parts: TranscriptNotes[] = []
+  for (const chunk of chunks) {
+    parts.push(await summariseChunk(llm, session, chunk, chunks.length))
+  }
+
+  let notes = mergeNotes(parts)
+  for (let pass = 0; pass < 3 && estimateTokens(renderNotes(notes)) > TRANSCRIPT_TOKEN_BUDGET; pass++) {
+    console.log(`[${tag}] Notes still over budget — condensing (pass ${pass + 1})`)
+    notes = await condenseNotes(llm, session, notes)
+  }
+
+  return {
+    label: `TRANSCRIPT NOTES (condensed from ${chunks.length} parts of a long session)`,
+    text: renderNotes(notes),
+  }
+}
+
+// Exported for the template preview endpoint, which renders it for a draft session
+export function buildDocumentPrompt(
+  session: any,
+  source: { label: string; text: string },
+  figureCount: number,
+  template: TemplateContent | null = null
+): string {
+  const figureInstructions = figureCount > 0
+    ? `\nScreenshots from the employee's screen share are attached as numbered FIGURES. Where a figure shows the system being explained in a section, reference it in that section's "figures" with a one-sentence caption saying what it shows. Use each figure at most once and skip figures that add nothing.\n`
+    : ''
+  const figureShape = figureCount > 0
+    ? `,
+      "figures": [{ "figure": 1, "caption": "What this screenshot shows and why it matters" }]`
+    : ''
+
+  return `You are a senior technical documentation specialist creating a high-level Knowledge Transfer (KT) document.
+
+${sessionDetails(session)}
+
+${source.label}:
+${source.text}
+
+Create a comprehensive, professional KT document suitable for a new hire or successor to understand this role deeply.
+${documentOutlineSection(template)}${figureInstructions}
+Return ONLY valid JSON with this exact structure:
+{
+  "title": "Knowledge Transfer: [Role] — [Employee Name]",
+  "executiveSummary": "A 3-4 sentence high-level summary of what was captured, why this role matters, and what the successor needs to know most urgently.",
+  "sections": [
+    {
+      "heading": "Section title based on topics covered",
+      "content": "Detailed, multi-paragraph prose. Include specifics, not vague statements. Cover edge cases, tribal knowledge, and anything that only this person knows. Write as if onboarding someone with zero context.",
+      "gaps": "Any areas in this topic that were not fully explained or need follow-up (empty string if none)"${figureShape}
+    }
+  ],
+  "criticalKnowledge": ["Bullet points of the most critical, hard-to-discover things learned"],
+  "handoverRisks": ["Specific risks if this knowledge is not transferred properly"],
+  "gaps": ["Overall knowledge gaps that still need documentation"],
+  "recommendedActions": ["Concrete next steps for the receiving team or manager"],
+  "followUpQuestions": ["Questions to ask in a follow-up session to fill gaps"]
+}`
+}
+
+// ── Document generation via the workspace's LLM provider ────────────────────
+// Looks the session up by id — the invite token can be rotated while a job is queued
+export async function generateDocument(sessionId: string, db: any, requestedBy: string | null = null) {
+  const tag = sessionId.slice(-8)
+  console.log(`[${tag}] Generating document...`)
+  try {
+    const session = await db.collection('sessions').findOne({ _id: new mongoose.Types.ObjectId(sessionId) })
+    // Thrown, not skipped — a job that can't find its session must not count as done
+    if (!session) throw new Error(`Session ${sessionId} not found`)
+    if (!session.transcript || session.transcript.length === 0) {
+      console.log(`[${tag}] No transcript — skipping document generation`)
+      return
+    }
+
+    const llm = await getWorkspaceLLMProvider(session.workspaceId, db)
+    console.log(`[${tag}] Using ${llm.name} (${llm.model})`)
+
+    const source = await buildTranscriptSource(llm, session, tag)
+
+    // Screen-share evidence, for models that can look at it
+    const figures = llm.supportsVision ? await selectFigures(session) : []
+    if (figures.length > 0) console.log(`[${tag}] Attaching ${figures.length} screenshots as figures`)
+    const template = await sessionTemplate(session)
+    const prompt = buildDocumentPrompt(session, source, figures.length, template)
+
+    const generatedText = await llm.complete({
+      purpose: 'kt_document',
+      messages: [
+        JSON_SYSTEM_MESSAGE,
+        { role: 'user', content: figures.length > 0 ? [{ type: 'text', text: prompt }, ...figureParts(figures)] : prompt },
+      ],
+      json: true,
+      temperature: 0.3,
+    })
+
+    const document = JSON.parse(generatedText)
+    resolveSectionFigures(document, figures, String(session._id))
+    if (Array.isArray(session.topicCoverage) && session.topicCoverage.length > 0) {
+      document.topicCoverage = session.topicCoverage.map((c: any) => ({ topic: c.topic, status: c.status }))
+    }
+    const documentHtml = documentToHtml(document)
+
+    // Regenerating replaces the live document — the previous one stays in version history
+    await ensureBaselineVersion(session)
+    const version = await recordDocumentVersion({
+      sessionId: session._id,
+      workspaceId: session.workspaceId,
+      source: 'ai',
+      authorId: requestedBy,
+      document,
+      documentHtml,
+    })
+
+    await db.collection('sessions').updateOne(
+      { _id: session._id },
+      { $set: { document, documentHtml, status: 'completed' } }
+    )
+    emitWebhookEvent(session.workspaceId, 'document.completed', {
+      ...sessionEventData({ ...session, status: 'completed' }),
+      title: document.title || '',
+      version: version.version,
+    })
+    notifyManager(session, 'document_ready', {
+      title: document.title || '',
+      executiveSummary: document.executiveSummary || '',
+    })
+    console.log(`[${tag}] Document generated successfully`)
+  } catch (err: any) {
+    // Rethrow so the job queue can retry; the session is marked failed only once it dead-letters
+    console.error(`[${tag}] Document generation failed:`, err.message)
+    throw err
+  }
+}
+
+// ── Durable generation — queued as a job so it survives restarts and retries ─
+export const DOCUMENT_JOB = 'generate_document'
+
+export async function enqueueDocumentGeneration(
+  session: { _id: any; workspaceId: any },
+  requestedBy: string | null = null
+): Promise<EnqueuedJob> {
+  return enqueueJob(
+    DOCUMENT_JOB,
+    { sessionId: String(session._id), requestedBy },
+    {
+      key: `${DOCUMENT_JOB}:${session._id}`,
+      sessionId: session._id,
+      workspaceId: session.workspaceId,
+    }
+  )
+}
+
+export const documentJobHandler: JobHandler = {
+  async run(job) {
+    await generateDocument(job.payload.sessionId, mongoose.connection.db, job.payload.requestedBy || null)
+  },
+
+  async onDeadLetter(job, error) {
+    const session = await mongoose.connection.db!.collection('sessions').findOneAndUpdate(
+      { _id: new mongoose.Types.ObjectId(job.payload.sessionId) },
+      { $set: { status: 'failed' } },
+      { returnDocument: 'after' }
+    )
+    if (session) {
+      emitWebhookEvent(session.workspaceId, 'document.failed', { ...sessionEventData(session), error })
+      notifyManager(
+        {
+          _id: session._id,
+          workspaceId: session.workspaceId,
+          createdBy: session.createdBy,
+          employeeName: session.employeeName,
+          role: session.role,
+        },
+        'document_failed',
+        { reason: error }
+      )
+    }
+  },
+}
@@ -0,0 +1,114 @@
+import { LLMContentPart } from './llm'
+import { formatOffset } from '../utils/chunkTranscript'
+import { frameImageUrl, getStorage, storedObjectKey } from './storage'
+
+// Screenshots sent with the final document prompt. Vision tokens are expensive, so only the
+// frames the employee talked over the most are kept.
+const MAX_FIGURES = Number(process.env.DOC_MAX_FIGURES) || 8
+// A frame is linked to employee turns this close to it
+const CONTEXT_WINDOW_MS = 45 * 1000
+// Frames closer than this compete for the same slot
+const MIN_FIGURE_SPACING_MS = 60 * 1000
+const MAX_CONTEXT_CHARS = 400
+
+export interface Figure {
+  number: number
+  key: string
+  timestamp: number
+  offsetMs: number
+  // What the employee was saying around the capture
+  context: string
+  data: string // base64 JPEG
+}
+
+// What a generated section carries once the model's figure numbers are resolved
+export interface DocumentFigure {
+  figure: number
+  caption: string
+  timestamp: number
+  src: string
+}
+
+const toMs = (timestamp: any): number => new Date(timestamp).getTime() || 0
+
+function nearbySpeech(transcript: any[], timestamp: number): string {
+  return transcript
+    .filter((t) => t.speaker === 'employee' && Math.abs(toMs(t.timestamp) - timestamp) <= CONTEXT_WINDOW_MS)
+    .map((t) => t.text)
+    .join(' ')
+}
+
+// Picks the frames with the most employee speech around them, spaced out, in time order
+export async function selectFigures(session: any): Promise<Figure[]> {
+  const transcript: any[] = session.transcript || []
+  const origin = toMs(session.startedAt || transcript[0]?.timestamp || session.createdAt)
+
+  const candidates = (session.frames || [])
+    .map((frame: any) => ({ frame, key: storedObjectKey(frame), speech: nearbySpeech(transcript, frame.timestamp) }))
+    .filter((c: any) => c.key && c.speech)
+    .sort((a: any, b: any) => b.speech.length - a.speech.length)
+
+  const chosen: typeof candidates = []
+  for (const candidate of candidates) {
+    if (chosen.length >= MAX_FIGURES) break
+    if (chosen.some((c: any) => Math.abs(c.frame.timestamp - candidate.frame.timestamp) < MIN_FIGURE_SPACING_MS)) continue
+    chosen.push(candidate)
+  }
+  chosen.sort((a: any, b: any) => a.frame.timestamp - b.frame.timestamp)
+
+  const figures: Figure[] = []
+  for (const { frame, key, speech } of chosen) {
+    try {
+      const data = (await getStorage().get(key)).toString('base64')
+      figures.push({
+        number: figures.length + 1,
+        key,
+        timestamp: frame.timestamp,
+        offsetMs: Math.max(0, frame.timestamp - origin),
+        context: speech.length > MAX_CONTEXT_CHARS ? `${speech.slice(0, MAX_CONTEXT_CHARS)}…` : speech,
+        data,
+      })
+    } catch (err) {
+      console.warn(`Figure ${key} unavailable:`, (err as Error).message)
+    }
+  }
+  return figures
+}
+
+// Prompt text plus one labelled image part per figure
+export function figureParts(figures: Figure[]): LLMContentPart[] {
+  if (figures.length === 0) return []
+  const parts: LLMContentPart[] = [{
+    type: 'text',
+    text: `FIGURES — screenshots of the employee's screen share, each with what they were saying at the time:\n${figures
+      .map((f) => `Figure ${f.number} (${formatOffset(f.offsetMs)}): "${f.context}"`)
+      .join('\n')}`,
+  }]
+  for (const figure of figures) {
+    parts.push({ type: 'text', text: `Figure ${figure.number}:` })
+    parts.push({ type: 'image', mimeType: 'image/jpeg', data: figure.data })
+  }
+  return parts
+}
+
+// Swaps the model's { figure, caption } references for embeddable figures, dropping unknown
+// numbers and repeats — each screenshot appears in at most one section
+export function resolveSectionFigures(document: any, figures: Figure[], sessionId: string): void {
+  const used = new Set<number>()
+  for (const section of document.sections || []) {
+    const refs: any[] = Array.isArray(section.figures) ? section.figures : []
+    section.figures = refs
+      .map((ref) => (typeof ref === 'number' ? { figure: ref, caption: '' } : ref))
+      .filter((ref) => ref && figures.some((f) => f.number === Number(ref.figure)) && !used.has(Number(ref.figure)))
+      .map((ref): DocumentFigure => {
+        const figure = figures.find((f) => f.number === Number(ref.figure))!
+        used.add(figure.number)
+        return {
+          figure: figure.number,
+          caption: typeof ref.caption === 'string' ? ref.caption : '',
+          timestamp: figure.timestamp,
+          src: frameImageUrl(sessionId, figure.timestamp),
+        }
+      })
+  }
+}
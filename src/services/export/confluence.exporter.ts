@@ -0,0 +1,52 @@
+import { Block, Inline } from '../../utils/htmlBlocks'
+import { ExportInput, ExportResult } from './types'
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+function renderInlines(inlines: Inline[]): string {
+  return inlines
+    .map((i) => {
+      if (i.text === '\n') return '<br />'
+      let text = escapeXml(i.text)
+      if (i.code) text = `<code>${text}</code>`
+      if (i.bold) text = `<strong>${text}</strong>`
+      if (i.italic) text = `<em>${text}</em>`
+      if (i.href) text = `<a href="${escapeXml(i.href)}">${text}</a>`
+      return text
+    })
+    .join('')
+}
+
+function renderBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${renderInlines(block.inlines)}</h${block.level}>`
+    case 'paragraph':
+      return `<p>${renderInlines(block.inlines)}</p>`
+    case 'quote':
+      return `<blockquote><p>${renderInlines(block.inlines)}</p></blockquote>`
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul'
+      return `<${tag}>${block.items.map((item) => `<li>${renderInlines(item)}</li>`).join('')}</${tag}>`
+    }
+    case 'code':
+      // CDATA cannot contain its own terminator — split it across two sections
+      return `<ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[${block.text.replace(/]]>/g, ']]]]><![CDATA[>')}]]></ac:plain-text-body></ac:structured-macro>`
+    case 'image':
+      return `<p><ac:image ac:width="480"${block.alt ? ` ac:alt="${escapeXml(block.alt)}"` : ''}><ri:url ri:value="${escapeXml(block.src)}" /></ac:image></p>`
+  }
+}
+
+// Confluence "storage format" — paste via the REST API body.storage.value
+export function exportConfluence(input: ExportInput): ExportResult {
+  return {
+    body: input.blocks.map(renderBlock).join('\n'),
+    contentType: 'application/xhtml+xml; charset=utf-8',
+    extension: 'xhtml',
+  }
+}
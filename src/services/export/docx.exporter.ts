@@ -0,0 +1,122 @@
+import {
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  TextRun,
+} from 'docx'
+import { Block, Inline } from '../../utils/htmlBlocks'
+import imageInfo from '../../utils/imageInfo'
+import { ExportInput, ExportResult } from './types'
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+]
+
+const MAX_IMAGE_WIDTH = 480
+
+function renderInlines(inlines: Inline[]): ParagraphChild[] {
+  return inlines.map((i) => {
+    if (i.text === '\n') return new TextRun({ text: '', break: 1 })
+    const run = new TextRun({
+      text: i.text,
+      bold: i.bold,
+      italics: i.italic,
+      font: i.code ? 'Courier New' : undefined,
+      style: i.href ? 'Hyperlink' : undefined,
+    })
+    return i.href ? new ExternalHyperlink({ link: i.href, children: [run] }) : run
+  })
+}
+
+function renderImage(block: Extract<Block, { type: 'image' }>): Paragraph {
+  const info = block.data ? imageInfo(block.data) : null
+  if (!block.data || !info) {
+    return new Paragraph({ children: [new TextRun({ text: `[Image: ${block.alt || block.src}]`, italics: true })] })
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / info.width)
+  return new Paragraph({
+    children: [
+      new ImageRun({
+        type: info.type,
+        data: block.data,
+        transformation: { width: Math.round(info.width * scale), height: Math.round(info.height * scale) },
+        altText: block.alt ? { name: block.alt, description: block.alt, title: block.alt } : undefined,
+      }),
+    ],
+  })
+}
+
+function renderBlocks(blocks: Block[]): Paragraph[] {
+  const paragraphs: Paragraph[] = []
+  let orderedLists = 0
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+        paragraphs.push(new Paragraph({ heading: HEADINGS[block.level - 1], children: renderInlines(block.inlines) }))
+        break
+      case 'paragraph':
+        paragraphs.push(new Paragraph({ children: renderInlines(block.inlines) }))
+        break
+      case 'quote':
+        paragraphs.push(new Paragraph({ style: 'IntenseQuote', children: renderInlines(block.inlines) }))
+        break
+      case 'list': {
+        // Each ordered list gets its own numbering instance so it restarts at 1
+        const instance = orderedLists++
+        for (const item of block.items) {
+          paragraphs.push(new Paragraph({
+            children: renderInlines(item),
+            ...(block.ordered
+              ? { numbering: { reference: 'kt-ordered', level: 0, instance } }
+              : { bullet: { level: 0 } }),
+          }))
+        }
+        break
+      }
+      case 'code':
+        for (const line of block.text.split('\n')) {
+          paragraphs.push(new Paragraph({ children: [new TextRun({ text: line, font: 'Courier New', size: 18 })] }))
+        }
+        break
+      case 'image':
+        paragraphs.push(renderImage(block))
+        break
+    }
+  }
+
+  return paragraphs
+}
+
+export async function exportDocx(input: ExportInput): Promise<ExportResult> {
+  const doc = new Document({
+    title: input.title,
+    creator: 'KT Pro',
+    numbering: {
+      config: [
+        {
+          reference: 'kt-ordered',
+          levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: 'left' }],
+        },
+      ],
+    },
+    sections: [{ children: renderBlocks(input.blocks) }],
+  })
+
+  return {
+    body: await Packer.toBuffer(doc),
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+  }
+}
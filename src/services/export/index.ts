@@ -0,0 +1,139 @@
+import htmlToBlocks, { Block } from '../../utils/htmlBlocks'
+import { formatOffset } from '../../utils/chunkTranscript'
+import { documentToHtml } from '../document.service'
+import { getStorage, parseFrameImageUrl, signedUrl, storedObjectKey } from '../storage'
+import { exportMarkdown } from './markdown.exporter'
+import { exportConfluence } from './confluence.exporter'
+import { exportDocx } from './docx.exporter'
+import { exportPdf } from './pdf.exporter'
+import { ExportFormat, ExportResult, EXPORT_FORMATS } from './types'
+
+export * from './types'
+
+export interface ExportOptions {
+  includeTranscript?: boolean
+  includeFrames?: boolean
+}
+
+// Appendix screenshots are sampled evenly so long screen shares don't bloat the file
+const MAX_APPENDIX_FRAMES = 30
+// Text formats link to screenshots, so links need to outlive the download (S3 caps presigning at 7 days)
+const EXPORT_LINK_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value)
+}
+
+function sessionOrigin(session: any): number {
+  const first = session.transcript?.[0]?.timestamp
+  return new Date(session.startedAt || first || session.createdAt).getTime()
+}
+
+function transcriptAppendix(session: any): Block[] {
+  const origin = sessionOrigin(session)
+  return [
+    { type: 'heading', level: 2, inlines: [{ text: 'Appendix: Transcript' }] },
+    ...(session.transcript || []).map((chunk: any): Block => ({
+      type: 'paragraph',
+      inlines: [
+        { text: `[${formatOffset(Math.max(0, new Date(chunk.timestamp).getTime() - origin))}] `, code: true },
+        { text: `${chunk.speaker === 'ai' ? 'Interviewer' : session.employeeName}: `, bold: true },
+        { text: chunk.text },
+      ],
+    })),
+  ]
+}
+
+async function readObject(key: string): Promise<Buffer | null> {
+  try {
+    return await getStorage().get(key)
+  } catch {
+    return null
+  }
+}
+
+// Figures in the document link to an authenticated API route; exports can't rely on the
+// reader's session cookie, so swap in storage bytes (binary) or a long-lived signed URL (text)
+async function resolveFigureImages(session: any, blocks: Block[], embed: boolean): Promise<void> {
+  for (const block of blocks) {
+    if (block.type !== 'image') continue
+    const ref = parseFrameImageUrl(block.src)
+    if (!ref || ref.sessionId !== String(session._id)) continue
+    const key = storedObjectKey((session.frames || []).find((f: any) => f.timestamp === ref.timestamp))
+    if (!key) continue
+    if (embed) block.data = await readObject(key)
+    else block.src = (await signedUrl(key, EXPORT_LINK_TTL_SECONDS))!
+  }
+}
+
+// Binary formats embed the screenshot bytes straight from storage
+async function framesAppendix(session: any, embed: boolean): Promise<Block[]> {
+  const frames: any[] = session.frames || []
+  const step = Math.max(1, Math.ceil(frames.length / MAX_APPENDIX_FRAMES))
+  const origin = sessionOrigin(session)
+  const blocks: Block[] = [{ type: 'heading', level: 2, inlines: [{ text: 'Appendix: Screen captures' }] }]
+
+  const sampled = frames.filter((frame, i) => i % step === 0 && storedObjectKey(frame))
+  for (const [i, frame] of sampled.entries()) {
+    const key = storedObjectKey(frame)!
+    const offset = formatOffset(Math.max(0, frame.timestamp - origin))
+    blocks.push({ type: 'paragraph', inlines: [{ text: `Figure ${i + 1} — ${offset}`, bold: true }] })
+    blocks.push({
+      type: 'image',
+      src: (await signedUrl(key, EXPORT_LINK_TTL_SECONDS))!,
+      alt: `Screen capture at ${offset}`,
+      data: embed ? await readObject(key) : undefined,
+    })
+  }
+
+  return blocks
+}
+
+function decodeDataUri(src: string): Buffer | null {
+  const match = /^data:image\/[\w.+-]+;base64,/i.exec(src)
+  return match ? Buffer.from(src.slice(match[0].length), 'base64') : null
+}
+
+// Binary formats embed images. Only storage-backed figures (resolved above) and inline data: URIs
+// are embedded — the export never fetches URLs from the editable HTML, so other images render
+// as a placeholder
+function loadImages(blocks: Block[]): void {
+  for (const block of blocks) {
+    if (block.type === 'image' && block.data === undefined) block.data = decodeDataUri(block.src)
+  }
+}
+
+// Renders the current document — documentHtml, so manual edits are included
+export async function exportSessionDocument(
+  session: any,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const html = session.documentHtml || (session.document ? documentToHtml(session.document) : '')
+  const blocks = htmlToBlocks(html)
+  const embed = format === 'docx' || format === 'pdf'
+  await resolveFigureImages(session, blocks, embed)
+
+  if (options.includeTranscript && session.transcript?.length > 0) blocks.push(...transcriptAppendix(session))
+  if (options.includeFrames && session.frames?.length > 0) {
+    blocks.push(...await framesAppendix(session, embed))
+  }
+
+  const input = {
+    title: session.document?.title || `Knowledge Transfer: ${session.role} — ${session.employeeName}`,
+    blocks,
+  }
+
+  switch (format) {
+    case 'markdown':
+      return exportMarkdown(input)
+    case 'confluence':
+      return exportConfluence(input)
+    case 'docx':
+      loadImages(blocks)
+      return exportDocx(input)
+    case 'pdf':
+      loadImages(blocks)
+      return exportPdf(input)
+  }
+}
@@ -0,0 +1,47 @@
+import { Block, Inline } from '../../utils/htmlBlocks'
+import { ExportInput, ExportResult } from './types'
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]#<>|])/g, '\\$1')
+
+function renderInlines(inlines: Inline[]): string {
+  return inlines
+    .map((i) => {
+      if (i.text === '\n') return '  \n'
+      // Emphasis markers must hug the text — keep edge whitespace outside them
+      const [, lead, core, trail] = i.text.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray
+      if (!core) return i.text
+      let text = i.code ? `\`${core.replace(/`/g, '')}\`` : escapeMarkdown(core)
+      if (i.bold) text = `**${text}**`
+      if (i.italic) text = `_${text}_`
+      if (i.href) text = `[${text}](${i.href})`
+      return `${lead}${text}${trail}`
+    })
+    .join('')
+}
+
+function renderBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${renderInlines(block.inlines)}`
+    case 'paragraph':
+      return renderInlines(block.inlines)
+    case 'quote':
+      return renderInlines(block.inlines).split('\n').map((line) => `> ${line}`).join('\n')
+    case 'list':
+      return block.items
+        .map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${renderInlines(item)}`)
+        .join('\n')
+    case 'code':
+      return `\`\`\`\n${block.text}\n\`\`\``
+    case 'image':
+      return `![${escapeMarkdown(block.alt)}](${block.src})`
+  }
+}
+
+export function exportMarkdown(input: ExportInput): ExportResult {
+  return {
+    body: input.blocks.map(renderBlock).join('\n\n') + '\n',
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+  }
+}
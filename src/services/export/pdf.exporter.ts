@@ -0,0 +1,94 @@
+import PDFDocument from 'pdfkit'
+import { Block, Inline } from '../../utils/htmlBlocks'
+import { ExportInput, ExportResult } from './types'
+
+const HEADING_SIZES = [22, 17, 14, 12, 11, 11]
+const BODY_SIZE = 11
+
+function fontFor(inline: Inline): string {
+  if (inline.code) return 'Courier'
+  if (inline.bold && inline.italic) return 'Helvetica-BoldOblique'
+  if (inline.bold) return 'Helvetica-Bold'
+  if (inline.italic) return 'Helvetica-Oblique'
+  return 'Helvetica'
+}
+
+// pdfkit writes styled runs by chaining text() calls with continued: true
+function writeInlines(doc: PDFKit.PDFDocument, inlines: Inline[], options: PDFKit.Mixins.TextOptions = {}) {
+  const runs = inlines.length > 0 ? inlines : [{ text: '' }]
+  runs.forEach((inline, i) => {
+    doc.font(fontFor(inline)).fillColor(inline.href ? '#1a5fb4' : 'black')
+    doc.text(inline.text, {
+      ...options,
+      link: inline.href || undefined,
+      underline: !!inline.href,
+      continued: i < runs.length - 1,
+    })
+  })
+  doc.fillColor('black')
+}
+
+function writeBlock(doc: PDFKit.PDFDocument, block: Block) {
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right
+
+  switch (block.type) {
+    case 'heading':
+      doc.moveDown(0.6).fontSize(HEADING_SIZES[block.level - 1])
+      writeInlines(doc, block.inlines.map((i) => ({ ...i, bold: true })))
+      doc.moveDown(0.3)
+      break
+    case 'paragraph':
+      doc.fontSize(BODY_SIZE)
+      writeInlines(doc, block.inlines)
+      doc.moveDown(0.5)
+      break
+    case 'quote':
+      doc.fontSize(BODY_SIZE)
+      writeInlines(doc, block.inlines, { indent: 18 })
+      doc.moveDown(0.5)
+      break
+    case 'list':
+      doc.fontSize(BODY_SIZE)
+      block.items.forEach((item, i) => {
+        const marker = block.ordered ? `${i + 1}. ` : '• '
+        writeInlines(doc, [{ text: marker }, ...item], { indent: 12 })
+      })
+      doc.moveDown(0.5)
+      break
+    case 'code':
+      doc.font('Courier').fontSize(9).text(block.text, { indent: 12 })
+      doc.moveDown(0.5)
+      break
+    case 'image':
+      if (block.data) {
+        try {
+          doc.image(block.data, { fit: [Math.min(width, 420), 300] })
+          doc.moveDown(0.5)
+          break
+        } catch {
+          // Unsupported format — fall through to the placeholder
+        }
+      }
+      doc.font('Helvetica-Oblique').fontSize(BODY_SIZE).text(`[Image: ${block.alt || block.src}]`)
+      doc.moveDown(0.5)
+      break
+  }
+}
+
+export function exportPdf(input: ExportInput): Promise<ExportResult> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 56, info: { Title: input.title, Creator: 'KT Pro' } })
+    const chunks: Buffer[] = []
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve({
+      body: Buffer.concat(chunks),
+      contentType: 'application/pdf',
+      extension: 'pdf',
+    }))
+    doc.on('error', reject)
+
+    for (const block of input.blocks) writeBlock(doc, block)
+    doc.end()
+  })
+}
@@ -0,0 +1,16 @@
+import { Block } from '../../utils/htmlBlocks'
+
+export type ExportFormat = 'markdown' | 'docx' | 'pdf' | 'confluence'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'docx', 'pdf', 'confluence']
+
+export interface ExportInput {
+  title: string
+  blocks: Block[]
+}
+
+export interface ExportResult {
+  body: Buffer | string
+  contentType: string
+  extension: string
+}
@@ -0,0 +1,612 @@
+import WebSocket from 'ws'
+import { frameKey, getStorage } from './storage'
+import { enqueueDocumentGeneration, getWorkspaceLLMProvider } from './document.service'
+import { classifyExchange, CoverageTurn, initialCoverage } from './coverage.service'
+import { LLMProvider } from './llm'
+import { getVoiceProvider, VoiceConnection } from './voice'
+import { hammingDistance, perceptualHashAsync } from '../utils/perceptualHash'
+import { discardRecordingFiles, openInterviewRecorder, pcmSampleRate } from './recording.service'
+import { emitWebhookEvent, sessionEventData } from './webhook.service'
+import { notifyManager } from './notification.service'
+import { interviewerTemplateSection, sessionTemplate, TemplateContent } from './template.service'
+import {
+  CLOSING_MS,
+  closingInstruction,
+  extensionInstruction,
+  interviewLimitMs,
+  WARNING_SECONDS,
+  wrapUpAtMs,
+  wrapUpInstruction,
+} from './timebox.service'
+
+// Follow-up sessions carry a snapshot of the earlier document so the interviewer
+// builds on it instead of starting over
+function buildFollowUpContext(session: any): string {
+  const followUp = session.followUp
+  if (!followUp) return ''
+
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join('\n')
+  return `
+FOLLOW-UP SESSION:
+This is a follow-up to an earlier KT interview with ${session.employeeName}${followUp.parentTitle ? ` ("${followUp.parentTitle}")` : ''}.
+${followUp.parentSummary ? `\nWHAT WAS ALREADY CAPTURED:\n${followUp.parentSummary}\n` : ''}${followUp.gaps?.length ? `\nGAPS TO CLOSE:\n${list(followUp.gaps)}\n` : ''}${followUp.questions?.length ? `\nOPEN QUESTIONS FROM LAST TIME:\n${list(followUp.questions)}\n` : ''}
+Do not re-cover what was already captured — go straight at these gaps and questions.
+`
+}
+
+// Exported for the template preview endpoint, which renders it for a draft session
+export function buildSystemPrompt(session: any, template: TemplateContent | null = null): string {
+  const isContinuation = Array.isArray(session.transcript) && session.transcript.length > 0
+  return `${template?.persona || 'You are an expert knowledge transfer interviewer conducting a structured KT session.'}
+
+EMPLOYEE: ${session.employeeName}
+ROLE: ${session.role}
+INTERVIEW TYPE: ${session.interviewType}
+GOAL: ${session.interviewGoal}
+TIME AVAILABLE: ${Math.round(interviewLimitMs(session) / 60000)} minutes — the facilitator will tell you when to start wrapping up
+${buildFollowUpContext(session)}
+TOPICS THAT MUST BE COVERED:
+${session.topics.map((t: string, i: number) => `${i + 1}. ${t}`).join('\n')}
+${interviewerTemplateSection(template)}
+YOUR BEHAVIOUR:
+- ${isContinuation
+    ? `This is a continuation of an existing session. Do NOT greet again. Resume naturally from where the prior conversation stopped.`
+    : session.followUp
+      ? `Start by greeting ${session.employeeName}, thank them for the earlier session and explain you want to close a few remaining gaps.`
+      : `Start by greeting ${session.employeeName} and explaining the session purpose.`}
+- ${isContinuation
+    ? `Continue directly with follow-up questions based on the existing context and remaining topics.`
+    : `Do not wait for the employee to speak first — begin immediately.`}
+- Work through each topic systematically — do not skip any
+- Ask follow-up questions when answers are vague
+- Push for edge cases: "What breaks? What only you know?"
+- When employee shares screen, ask about what you see specifically
+- Prompt for screen share when discussing systems or codebases
+- Track which topics are covered and which are remaining
+- At the end, explicitly list any topics not fully covered
+
+STRICT RULES:
+- NEVER generate a document during the session
+- NEVER summarise the session while it is still running
+- Your ONLY job is to INTERVIEW and EXTRACT knowledge
+- When employee says they are done, thank them and close naturally
+- RESPOND UNMISTAKABLY IN ENGLISH ONLY
+- If the employee speaks another language, understand it and continue the interview in English
+- Keep all AI responses and clarifying questions in English`
+}
+
+// Screen-share dedup — a frame is stored only if it differs perceptually from the last stored
+// one and enough time has passed since it
+const FRAME_HAMMING_THRESHOLD = Number(process.env.FRAME_HAMMING_THRESHOLD) || 2
+const FRAME_MIN_INTERVAL_MS = Number(process.env.FRAME_MIN_INTERVAL_MS) || 2000
+
+// The interview clock ticks every second and is written to the session every few ticks
+const CLOCK_TICK_MS = 1000
+const CLOCK_SYNC_TICKS = 5
+
+// Live bridges in this process by session id, so revoking an invite can end an interview
+// that is already under way
+const liveBridges = new Map<string, (reason: string) => void>()
+
+export function endLiveInterview(sessionId: string, reason: string): boolean {
+  const end = liveBridges.get(sessionId)
+  if (!end) return false
+  end(reason)
+  return true
+}
+
+// Writes below are keyed by session id, not by inviteToken — a manager can rotate the token
+// while the bridge is still saving the recording or frames
+export async function handleSessionWebSocket(
+  browserWs: WebSocket,
+  inviteToken: string,
+  db: any
+) {
+  const session = await db.collection('sessions').findOne({ inviteToken })
+  if (!session) {
+    browserWs.send(JSON.stringify({ type: 'error', message: 'Session not found' }))
+    browserWs.close()
+    return
+  }
+  // The browser gave up while the session was being looked up — nothing has started yet
+  if (browserWs.readyState !== WebSocket.OPEN) return
+
+  let topicCoverage = initialCoverage(session.topics || [], session.topicCoverage || [])
+
+  const startedAt = session.startedAt || new Date()
+  await db.collection('sessions').updateOne(
+    { _id: session._id },
+    { $set: { status: 'active', startedAt, endedAt: null, topicCoverage } }
+  )
+  // Reconnects resume the same interview — only the first connection counts as a start
+  if (!session.startedAt) {
+    emitWebhookEvent(session.workspaceId, 'session.started', sessionEventData({ ...session, status: 'active', startedAt }))
+    notifyManager(session, 'employee_joined')
+  }
+
+  const voice = getVoiceProvider()
+  const template = await sessionTemplate(session)
+  const recorder = await openInterviewRecorder(String(session._id))
+  let voiceConnection: VoiceConnection | null = null
+  let resumptionToken: string | null = null
+  let reconnectAttempts = 0
+  let sessionTerminated = false // ← prevents the voice backend from reconnecting after session ends
+  let explicitSessionEndRequested = false
+  const MAX_RECONNECTS = 5
+
+  // ── Transcript buffering — merge until speaker changes ──────
+  let transcriptBuffer: { speaker: string; text: string } | null = null
+
+  function flushTranscriptBuffer() {
+    if (!transcriptBuffer) return
+    const chunk = {
+      speaker: transcriptBuffer.speaker,
+      text: transcriptBuffer.text.trim(),
+      timestamp: new Date(),
+    }
+    if (!chunk.text) {
+      transcriptBuffer = null
+      return
+    }
+    db.collection('sessions').updateOne(
+      { _id: session._id },
+      {
+        $push: { transcript: chunk },
+        $set: { lastActivity: new Date() },
+      }
+    )
+    browserWs.send(JSON.stringify({
+      type: 'transcript',
+      speaker: chunk.speaker,
+      text: chunk.text,
+    }))
+    pendingTurns.push({ speaker: chunk.speaker, text: chunk.text })
+    transcriptBuffer = null
+  }
+
+  function bufferTranscript(speaker: string, text: string) {
+    if (transcriptBuffer && transcriptBuffer.speaker === speaker) {
+      transcriptBuffer.text += text
+    } else {
+      flushTranscriptBuffer()
+      transcriptBuffer = { speaker, text }
+    }
+  }
+
+  // ── Topic coverage — classified after each completed exchange ──
+  let pendingTurns: CoverageTurn[] = []
+  let coverageQueue: Promise<void> = Promise.resolve()
+  let coverageLLM: LLMProvider | null = null
+
+  function sendTopicProgress() {
+    if (browserWs.readyState !== WebSocket.OPEN) return
+    browserWs.send(JSON.stringify({
+      type: 'topic_progress',
+      topics: topicCoverage.map(({ topic, status }) => ({ topic, status })),
+    }))
+  }
+
+  // Runs one classification at a time so updates land in order
+  function trackCoverage() {
+    if (!pendingTurns.some((t) => t.speaker === 'employee')) return
+    const turns = pendingTurns
+    pendingTurns = []
+
+    coverageQueue = coverageQueue.then(async () => {
+      try {
+        coverageLLM = coverageLLM || await getWorkspaceLLMProvider(session.workspaceId, db)
+        const result = await classifyExchange(coverageLLM, session, topicCoverage, turns)
+        if (!result.changed) return
+        topicCoverage = result.coverage
+        await db.collection('sessions').updateOne({ _id: session._id }, { $set: { topicCoverage } })
+        sendTopicProgress()
+      } catch (err: any) {
+        console.error(`[${inviteToken.slice(0, 8)}] Topic coverage failed:`, err.message)
+      }
+    })
+  }
+
+  // ── Time box — active time is summed over every connection; extensions land via the DB ──
+  let activeMs: number = session.activeMs || 0
+  let extensionMinutes: number = session.extensionMinutes || 0
+  let wrapUpStarted = !!session.wrapUpStartedAt
+  let closingSent = false
+  let clockTimer: NodeJS.Timeout | null = null
+  let lastTickAt = Date.now()
+  let unsyncedMs = 0
+  let ticks = 0
+  const warned = new Set<number>()
+
+  const limitMs = () => interviewLimitMs({ duration: session.duration, extensionMinutes })
+  const remainingMs = () => limitMs() - activeMs
+
+  function sendTimeRemaining(extra: Record<string, any> = {}) {
+    if (browserWs.readyState !== WebSocket.OPEN) return
+    browserWs.send(JSON.stringify({
+      type: 'time_remaining',
+      remainingSeconds: Math.max(0, Math.ceil(remainingMs() / 1000)),
+      limitSeconds: Math.round(limitMs() / 1000),
+      phase: wrapUpStarted ? 'wrap_up' : 'interview',
+      ...extra,
+    }))
+  }
+
+  function instruct(text: string) {
+    if (voiceConnection?.isOpen()) voiceConnection.sendInstruction(text)
+  }
+
+  // Warnings already behind us (after a reconnect or an extension) are not repeated
+  function markPassedWarnings() {
+    warned.clear()
+    for (const mark of WARNING_SECONDS) if (remainingMs() <= mark * 1000) warned.add(mark)
+  }
+
+  function startWrapUp() {
+    wrapUpStarted = true
+    db.collection('sessions').updateOne({ _id: session._id }, { $set: { wrapUpStartedAt: new Date() } }).catch(() => {})
+    console.log(`[${inviteToken.slice(0, 8)}] Wrap-up started`)
+    instruct(wrapUpInstruction(topicCoverage, remainingMs()))
+    sendTimeRemaining()
+  }
+
+  function applyExtension(granted: number) {
+    extensionMinutes = granted
+    console.log(`[${inviteToken.slice(0, 8)}] Extended to ${Math.round(limitMs() / 60000)} minutes`)
+    markPassedWarnings()
+    if (remainingMs() > CLOSING_MS) closingSent = false
+    if (wrapUpStarted && activeMs < wrapUpAtMs(limitMs())) {
+      wrapUpStarted = false
+      db.collection('sessions').updateOne({ _id: session._id }, { $set: { wrapUpStartedAt: null } }).catch(() => {})
+    }
+    instruct(extensionInstruction(remainingMs()))
+    sendTimeRemaining({ extended: true })
+  }
+
+  async function syncClock() {
+    const delta = unsyncedMs
+    unsyncedMs = 0
+    try {
+      const updated = await db.collection('sessions').findOneAndUpdate(
+        { _id: session._id },
+        { $inc: { activeMs: delta } },
+        { returnDocument: 'after', projection: { extensionMinutes: 1 } }
+      )
+      const granted = updated?.extensionMinutes || 0
+      if (clockTimer && granted !== extensionMinutes) applyExtension(granted)
+    } catch (err: any) {
+      unsyncedMs += delta
+      console.error(`[${inviteToken.slice(0, 8)}] Clock sync failed:`, err.message)
+    }
+  }
+
+  function endForTimeLimit() {
+    stopClock()
+    console.log(`[${inviteToken.slice(0, 8)}] Time limit reached — ending session`)
+    browserWs.send(JSON.stringify({ type: 'session_ended', reason: 'time_limit' }))
+    // The close handler ends the session and queues the document, as for any other disconnect
+    browserWs.close()
+  }
+
+  function tick() {
+    const now = Date.now()
+    activeMs += now - lastTickAt
+    unsyncedMs += now - lastTickAt
+    lastTickAt = now
+    if (++ticks % CLOCK_SYNC_TICKS === 0) syncClock()
+
+    const remaining = remainingMs()
+    if (remaining <= 0) {
+      endForTimeLimit()
+      return
+    }
+    if (!wrapUpStarted && activeMs >= wrapUpAtMs(limitMs())) startWrapUp()
+    if (!closingSent && remaining <= CLOSING_MS) {
+      closingSent = true
+      instruct(closingInstruction(session.employeeName, topicCoverage))
+    }
+
+    const crossed = WARNING_SECONDS.filter((mark) => remaining <= mark * 1000 && !warned.has(mark))
+    if (crossed.length > 0) {
+      crossed.forEach((mark) => warned.add(mark))
+      sendTimeRemaining({ warning: true })
+    }
+  }
+
+  function startClock() {
+    markPassedWarnings()
+    closingSent = remainingMs() <= CLOSING_MS
+    lastTickAt = Date.now()
+    clockTimer = setInterval(tick, CLOCK_TICK_MS)
+  }
+
+  function stopClock() {
+    if (!clockTimer) return
+    clearInterval(clockTimer)
+    clockTimer = null
+    const now = Date.now()
+    activeMs += now - lastTickAt
+    unsyncedMs += now - lastTickAt
+    lastTickAt = now
+  }
+
+  // ── Frame upload ─────────────────────────────────────────────
+  const lastStoredFrame = (session.frames || []).slice(-1)[0]
+  let lastFrameHash: string | null = lastStoredFrame?.phash || null
+  let lastFrameAt: number | null = lastStoredFrame?.timestamp || null
+  let frameInFlight = false
+
+  function countFrame(outcome: 'stored' | 'skippedSimilar' | 'skippedInterval' | 'skippedBusy' | 'failed') {
+    db.collection('sessions').updateOne(
+      { _id: session._id },
+      { $inc: { 'frameStats.received': 1, [`frameStats.${outcome}`]: 1 } }
+    ).catch(() => {})
+  }
+
+  async function processFrame(jpegBase64: string, timestamp: number) {
+    if (lastFrameAt !== null && timestamp - lastFrameAt < FRAME_MIN_INTERVAL_MS) {
+      countFrame('skippedInterval')
+      return
+    }
+
+    const jpeg = Buffer.from(jpegBase64, 'base64')
+    let hash: string
+    try {
+      hash = await perceptualHashAsync(jpeg)
+    } catch (err: any) {
+      console.error(`[${inviteToken.slice(0, 8)}] Frame decode failed:`, err.message)
+      countFrame('failed')
+      return
+    }
+
+    if (lastFrameHash && hammingDistance(hash, lastFrameHash) <= FRAME_HAMMING_THRESHOLD) {
+      console.log(`[${inviteToken.slice(0, 8)}] Frame unchanged — skipping`)
+      countFrame('skippedSimilar')
+      return
+    }
+
+    console.log(`[${inviteToken.slice(0, 8)}] Frame changed — uploading...`)
+    try {
+      const key = frameKey(String(session._id), timestamp)
+      await getStorage().put(key, jpeg, 'image/jpeg')
+      await db.collection('sessions').updateOne(
+        { _id: session._id },
+        { $push: { frames: { key, timestamp, phash: hash } }, $inc: { 'storageBytes.frames': jpeg.length } }
+      )
+      lastFrameHash = hash
+      lastFrameAt = timestamp
+      countFrame('stored')
+      console.log(`[${inviteToken.slice(0, 8)}] Frame saved: ${key}`)
+    } catch (err: any) {
+      console.error(`[${inviteToken.slice(0, 8)}] Frame upload failed:`, err.message)
+      countFrame('failed')
+    }
+  }
+
+  // One frame at a time, so each is compared against the frame stored just before it. Frames
+  // that arrive meanwhile are dropped rather than queued — the next one will show the same screen.
+  function saveFrameIfChanged(jpegBase64: string, timestamp: number): void {
+    if (frameInFlight) {
+      countFrame('skippedBusy')
+      return
+    }
+    frameInFlight = true
+    processFrame(jpegBase64, timestamp)
+      .catch((err) => console.error(`[${inviteToken.slice(0, 8)}] Frame processing failed:`, err.message))
+      .finally(() => { frameInFlight = false })
+  }
+
+  function scheduleReconnect() {
+    // ← Do NOT reconnect if the session was intentionally ended by the employee
+    if (sessionTerminated) {
+      console.log(`[${inviteToken.slice(0, 8)}] Session terminated — skipping ${voice.name} reconnect`)
+      return
+    }
+    if (reconnectAttempts < MAX_RECONNECTS) {
+      reconnectAttempts++
+      setTimeout(() => connectToVoice(resumptionToken), reconnectAttempts * 2000)
+    } else {
+      browserWs.send(JSON.stringify({ type: 'session_ended', reason: 'max_reconnects' }))
+    }
+  }
+
+  async function connectToVoice(token: string | null = null) {
+    console.log(`[${inviteToken.slice(0, 8)}] Connecting to ${voice.name}...`)
+
+    try {
+      voiceConnection = await voice.connect({
+        session,
+        systemPrompt: buildSystemPrompt(session, template),
+        voiceName: template?.voice || null,
+        resumptionHandle: token,
+        handlers: {
+          onReady: () => {
+            console.log(`[${inviteToken.slice(0, 8)}] ${voice.name} connected`)
+            reconnectAttempts = 0
+            browserWs.send(JSON.stringify({ type: 'session_ready' }))
+            sendTopicProgress()
+            sendTimeRemaining()
+            // A fresh voice connection or a new browser connection hasn't heard it yet
+            if (wrapUpStarted) instruct(wrapUpInstruction(topicCoverage, remainingMs()))
+          },
+          onAudio: (base64Pcm) => {
+            recorder.addAiAudio(base64Pcm, voice.outputSampleRate)
+            browserWs.send(JSON.stringify({ type: 'ai_audio', data: base64Pcm }))
+          },
+          onModelTurn: () => {
+            browserWs.send(JSON.stringify({ type: 'ai_speaking', value: true }))
+          },
+          // AI turn complete — flush AI transcript buffer
+          onTurnComplete: () => {
+            flushTranscriptBuffer()
+            browserWs.send(JSON.stringify({ type: 'ai_speaking', value: false }))
+            trackCoverage()
+          },
+          onInputTranscript: (text) => bufferTranscript('employee', text),
+          onOutputTranscript: (text) => bufferTranscript('ai', text),
+          onResumptionHandle: (handle) => {
+            resumptionToken = handle
+            db.collection('sessions').updateOne(
+              { _id: session._id },
+              { $set: { resumptionHandle: resumptionToken } }
+            ).catch(() => {})
+          },
+          onClose: (code) => {
+            console.log(`[${inviteToken.slice(0, 8)}] ${voice.name} closed: ${code}`)
+            scheduleReconnect()
+          },
+          onError: (err) => {
+            console.error(`[${inviteToken.slice(0, 8)}] ${voice.name} error:`, err.message)
+          },
+        },
+      })
+    } catch (err: any) {
+      console.error(`[${inviteToken.slice(0, 8)}] ${voice.name} connect failed:`, err.message)
+      scheduleReconnect()
+    }
+  }
+
+  // ── Browser → voice backend ────────────────────────────────────────
+  browserWs.on('message', async (message) => {
+    try {
+      const data = JSON.parse(message.toString())
+
+      if (data.type === 'end_session') {
+        console.log(`[${inviteToken.slice(0, 8)}] Explicit end_session received`)
+        explicitSessionEndRequested = true
+        sessionTerminated = true
+        stopClock()
+        flushTranscriptBuffer()
+
+        if (voiceConnection?.isOpen()) {
+          voiceConnection.close()
+        }
+
+        const endedAt = new Date()
+        await db.collection('sessions').updateOne(
+          { _id: session._id },
+          { $set: { status: 'ended', endedAt } }
+        )
+        emitWebhookEvent(session.workspaceId, 'session.ended', sessionEventData({ ...session, status: 'ended', startedAt, endedAt }))
+        notifyManager(session, 'interview_ended', { generating: false })
+
+        browserWs.send(JSON.stringify({ type: 'session_ended', reason: 'user_ended' }))
+        return
+      }
+
+      // Handle frames and tap the mic audio for the recording
+      if (data.realtime_input?.media_chunks) {
+        for (const chunk of data.realtime_input.media_chunks) {
+          if (chunk.mime_type?.startsWith('audio/pcm')) {
+            recorder.addEmployeeAudio(chunk.data, pcmSampleRate(chunk.mime_type))
+          }
+          if (chunk.mime_type === 'image/jpeg') {
+            console.log(`[${inviteToken.slice(0, 8)}] Image chunk received, size: ${chunk.data?.length ?? 0}`)
+            saveFrameIfChanged(chunk.data, Date.now())
+          }
+        }
+      }
+
+      // Forward everything to the voice backend
+      if (voiceConnection?.isOpen()) {
+        if (data.realtime_input?.media_chunks) {
+          voiceConnection.sendRealtimeInput(data.realtime_input.media_chunks)
+        } else {
+          voiceConnection.sendClientMessage(data)
+        }
+      }
+    } catch (err: any) {
+      console.error(`[${inviteToken.slice(0, 8)}] Message parse error:`, err.message)
+    }
+  })
+
+  // ── Recording — uploaded on every disconnect, so a lost resume still leaves audio ──
+  async function saveRecording(final: boolean) {
+    try {
+      const saved = await recorder.save()
+      if (saved) {
+        await db.collection('sessions').updateOne(
+          { _id: session._id },
+          { $set: { recordingKey: saved.key, 'storageBytes.recording': saved.bytes } }
+        )
+        console.log(`[${inviteToken.slice(0, 8)}] Recording saved: ${saved.key}`)
+      }
+      if (final) await discardRecordingFiles(String(session._id))
+    } catch (err: any) {
+      console.error(`[${inviteToken.slice(0, 8)}] Recording upload failed:`, err.message)
+    }
+  }
+
+  // ── Browser disconnected ────────────────────────────────────
+  let browserClosed = false
+  async function handleBrowserClose() {
+    if (browserClosed) return
+    browserClosed = true
+    if (liveBridges.get(String(session._id)) === endBridge) liveBridges.delete(String(session._id))
+    console.log(`[${inviteToken.slice(0, 8)}] Browser disconnected — ending session`)
+
+    sessionTerminated = true // ← stops the voice backend from reconnecting
+
+    stopClock()
+    await syncClock()
+    flushTranscriptBuffer()
+
+    if (voiceConnection) voiceConnection.close()
+
+    if (explicitSessionEndRequested) {
+      await db.collection('sessions').updateOne(
+        { _id: session._id },
+        { $set: { status: 'ended', endedAt: new Date() } }
+      )
+      // Channel files stay until the employee finalizes — they may still resume
+      await saveRecording(false)
+      return
+    }
+
+    const endedAt = new Date()
+    await db.collection('sessions').updateOne(
+      { _id: session._id },
+      { $set: { status: 'processing', endedAt, resumptionHandle: null } }
+    )
+    emitWebhookEvent(session.workspaceId, 'session.ended', sessionEventData({ ...session, status: 'processing', startedAt, endedAt }))
+    notifyManager(session, 'interview_ended', { generating: true })
+
+    // Let the last exchange's coverage land before the document copies it
+    trackCoverage()
+    await coverageQueue
+
+    try {
+      await enqueueDocumentGeneration(session)
+    } catch (err: any) {
+      console.error(`[${inviteToken.slice(0, 8)}] Failed to queue document generation:`, err.message)
+    }
+
+    await saveRecording(true)
+  }
+  browserWs.on('close', handleBrowserClose)
+
+  // Ends like any other disconnect — the close handler saves and queues the document
+  function endBridge(reason: string) {
+    console.log(`[${inviteToken.slice(0, 8)}] Ending session: ${reason}`)
+    browserWs.send(JSON.stringify({ type: 'session_ended', reason }))
+    browserWs.close()
+  }
+  liveBridges.set(String(session._id), endBridge)
+
+  browserWs.on('error', (err) => {
+    console.error(`[${inviteToken.slice(0, 8)}] Browser WS error:`, err.message)
+  })
+
+  // Handlers are attached only after the setup awaits above; a browser that left during them
+  // never fires 'close' for us, so wind the session down here instead of connecting to voice
+  if (browserWs.readyState !== WebSocket.OPEN) {
+    await handleBrowserClose()
+    return
+  }
+
+  startClock()
+  if (remainingMs() <= 0) {
+    endForTimeLimit()
+    return
+  }
+  connectToVoice(session.resumptionHandle || null)
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto'
+import { SessionStatus } from '../models/Session'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// How long a fresh link stays valid — counted from the scheduled slot when there is one
+export const INVITE_TTL_HOURS = Number(process.env.SESSION_INVITE_TTL_HOURS) || 7 * 24
+
+// Once the employee has joined, the link keeps working this long after the start so a
+// dropped interview can resume and the browser can still upload audio and finalize
+const POST_START_GRACE_HOURS = Number(process.env.SESSION_INVITE_GRACE_HOURS) || 24
+
+export type InviteDenialCode = 'INVITE_NOT_FOUND' | 'INVITE_REVOKED' | 'INVITE_EXPIRED' | 'SESSION_CLOSED'
+
+export interface InviteDenial {
+  status: number
+  code: InviteDenialCode
+  message: string
+}
+
+interface InviteFields {
+  status: SessionStatus
+  inviteExpiresAt?: Date | null
+  inviteRevokedAt?: Date | null
+  startedAt?: Date | null
+  createdAt?: Date
+}
+
+export const newInviteToken = (): string => crypto.randomBytes(32).toString('hex')
+
+export function inviteExpiry(scheduledAt: Date | null, hours = INVITE_TTL_HOURS): Date {
+  const from = Math.max(Date.now(), scheduledAt ? scheduledAt.getTime() : 0)
+  return new Date(from + hours * HOUR_MS)
+}
+
+export function parseExpiryHours(value: unknown): number | null {
+  if (value === undefined || value === null) return INVITE_TTL_HOURS
+  const hours = Number(value)
+  return Number.isFinite(hours) && hours > 0 && hours <= 90 * 24 ? hours : null
+}
+
+export const INVITE_NOT_FOUND: InviteDenial = {
+  status: 404,
+  code: 'INVITE_NOT_FOUND',
+  message: 'Invalid or expired invite link',
+}
+
+// Sessions created before expiry existed fall back to createdAt + the default TTL
+export function checkInviteAccess(
+  session: InviteFields,
+  options: { allowClosed?: boolean } = {}
+): InviteDenial | null {
+  if (session.inviteRevokedAt) {
+    return { status: 410, code: 'INVITE_REVOKED', message: 'This invite link has been revoked' }
+  }
+
+  if (!options.allowClosed && (session.status === 'completed' || session.status === 'cancelled')) {
+    return { status: 400, code: 'SESSION_CLOSED', message: 'This session is no longer available' }
+  }
+
+  const expiresAt = session.inviteExpiresAt
+    ? session.inviteExpiresAt.getTime()
+    : (session.createdAt ? session.createdAt.getTime() : Date.now()) + INVITE_TTL_HOURS * HOUR_MS
+  const graceUntil = session.startedAt ? session.startedAt.getTime() + POST_START_GRACE_HOURS * HOUR_MS : 0
+
+  if (Date.now() > Math.max(expiresAt, graceUntil)) {
+    return { status: 410, code: 'INVITE_EXPIRED', message: 'This invite link has expired' }
+  }
+
+  return null
+}
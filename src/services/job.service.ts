@@ -0,0 +1,247 @@
+import os from 'os'
+import mongoose from 'mongoose'
+import Job, { IJob } from '../models/Job'
+
+export interface JobHandler {
+  run(job: IJob): Promise<void>
+  // Called once, after the final attempt has failed
+  onDeadLetter?(job: IJob, error: string): Promise<void>
+}
+
+export interface EnqueueOptions {
+  key?: string
+  workspaceId?: mongoose.Types.ObjectId | string | null
+  sessionId?: mongoose.Types.ObjectId | string | null
+  maxAttempts?: number
+  runAt?: Date
+}
+
+// created is false when an active job already held the key and was returned instead
+export interface EnqueuedJob {
+  job: IJob
+  created: boolean
+}
+
+const LEASE_MS = Number(process.env.JOB_LEASE_MS) || 60 * 1000
+const HEARTBEAT_MS = Math.floor(LEASE_MS / 3)
+const POLL_MS = Number(process.env.JOB_POLL_MS) || 2000
+const BACKOFF_BASE_MS = Number(process.env.JOB_BACKOFF_BASE_MS) || 5000
+const BACKOFF_MAX_MS = 10 * 60 * 1000
+const WORKER_ID = `${os.hostname()}:${process.pid}`
+const COMPLETE_ATTEMPTS = 3
+
+const handlers: Record<string, JobHandler> = {}
+
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS)
+}
+
+// Returns the already-active job instead of queueing a duplicate for the same key
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, any>,
+  options: EnqueueOptions = {}
+): Promise<EnqueuedJob> {
+  const key = options.key || null
+
+  if (key) {
+    const existing = await Job.findOne({ activeKey: key })
+    if (existing) return { job: existing, created: false }
+  }
+
+  try {
+    const job = await Job.create({
+      type,
+      payload,
+      key,
+      activeKey: key,
+      workspaceId: options.workspaceId || null,
+      sessionId: options.sessionId || null,
+      maxAttempts: options.maxAttempts || 5,
+      runAt: options.runAt || new Date(),
+    })
+    return { job, created: true }
+  } catch (err: any) {
+    // Lost a race with a concurrent enqueue for the same key
+    if (key && err.code === 11000) {
+      const existing = await Job.findOne({ activeKey: key })
+      if (existing) return { job: existing, created: false }
+    }
+    throw err
+  }
+}
+
+// Dead or backing-off job → run again now with a fresh set of attempts.
+// Returns null if the job is not retryable; throws code 11000 if another job holds the key.
+export async function retryJob(jobId: string, filter: Record<string, any> = {}): Promise<IJob | null> {
+  const job = await Job.findOne({ _id: jobId, status: { $in: ['dead', 'pending'] }, ...filter })
+  if (!job) return null
+
+  return Job.findOneAndUpdate(
+    { _id: job._id, status: job.status },
+    {
+      $set: {
+        status: 'pending',
+        activeKey: job.key,
+        attempts: 0,
+        runAt: new Date(),
+        lastError: null,
+      },
+    },
+    { new: true }
+  )
+}
+
+async function claimJob(types: string[]): Promise<IJob | null> {
+  const now = new Date()
+  return Job.findOneAndUpdate(
+    {
+      type: { $in: types },
+      $expr: { $lt: ['$attempts', '$maxAttempts'] },
+      $or: [
+        { status: 'pending', runAt: { $lte: now } },
+        // Lease ran out — the worker holding it crashed or restarted
+        { status: 'running', leaseExpiresAt: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: 'running',
+        lockedBy: WORKER_ID,
+        leaseExpiresAt: new Date(now.getTime() + LEASE_MS),
+      },
+      $inc: { attempts: 1 },
+    },
+    { new: true, sort: { runAt: 1 } }
+  )
+}
+
+async function deadLetter(job: IJob, error: string): Promise<void> {
+  console.error(`Job ${job.type} ${job._id} dead after ${job.attempts} attempts:`, error)
+  try {
+    await handlers[job.type]?.onDeadLetter?.(job, error)
+  } catch (err) {
+    console.error(`Job ${job.type} ${job._id} dead-letter hook failed:`, (err as Error).message)
+  }
+}
+
+async function failJob(job: IJob, error: string): Promise<void> {
+  if (job.attempts >= job.maxAttempts) {
+    await Job.updateOne(
+      { _id: job._id, lockedBy: WORKER_ID },
+      { $set: { status: 'dead', activeKey: null, lastError: error, lockedBy: null, leaseExpiresAt: null } }
+    )
+    await deadLetter(job, error)
+    return
+  }
+
+  const delay = backoffDelay(job.attempts)
+  console.warn(`Job ${job.type} ${job._id} attempt ${job.attempts} failed, retrying in ${delay}ms:`, error)
+  await Job.updateOne(
+    { _id: job._id, lockedBy: WORKER_ID },
+    {
+      $set: {
+        status: 'pending',
+        runAt: new Date(Date.now() + delay),
+        lastError: error,
+        lockedBy: null,
+        leaseExpiresAt: null,
+      },
+    }
+  )
+}
+
+// The job has already done its work — keep trying to record that (the heartbeat keeps the lease
+// meanwhile) rather than failing it, which would run it again and repeat its side effects
+async function completeJob(job: IJob): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await Job.updateOne(
+        { _id: job._id, lockedBy: WORKER_ID },
+        {
+          $set: {
+            status: 'completed',
+            activeKey: null,
+            completedAt: new Date(),
+            lastError: null,
+            lockedBy: null,
+            leaseExpiresAt: null,
+          },
+        }
+      )
+      return
+    } catch (err) {
+      if (attempt >= COMPLETE_ATTEMPTS) throw err
+      await new Promise((resolve) => setTimeout(resolve, attempt * 1000))
+    }
+  }
+}
+
+async function runJob(job: IJob): Promise<void> {
+  const heartbeat = setInterval(() => {
+    Job.updateOne(
+      { _id: job._id, lockedBy: WORKER_ID, status: 'running' },
+      { $set: { leaseExpiresAt: new Date(Date.now() + LEASE_MS) } }
+    ).catch(() => {})
+  }, HEARTBEAT_MS)
+
+  try {
+    try {
+      await handlers[job.type].run(job)
+    } catch (err) {
+      await failJob(job, (err as Error).message)
+      return
+    }
+    await completeJob(job)
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+// A worker that died on the final attempt leaves a job no one can claim — dead-letter it
+async function reapExpiredJobs(types: string[]): Promise<void> {
+  for (;;) {
+    const job = await Job.findOneAndUpdate(
+      {
+        type: { $in: types },
+        status: 'running',
+        leaseExpiresAt: { $lt: new Date() },
+        $expr: { $gte: ['$attempts', '$maxAttempts'] },
+      },
+      { $set: { status: 'dead', activeKey: null, lockedBy: null, leaseExpiresAt: null } },
+      { new: true }
+    )
+    if (!job) return
+    await deadLetter(job, job.lastError || 'Worker lease expired')
+  }
+}
+
+// Polls Mongo for due jobs. Safe to run in several processes at once — claims are atomic.
+export function startJobWorker(
+  registered: Record<string, JobHandler>,
+  concurrency = Number(process.env.JOB_CONCURRENCY) || 2
+): void {
+  Object.assign(handlers, registered)
+  const types = Object.keys(handlers)
+  let active = 0
+
+  async function tick() {
+    try {
+      await reapExpiredJobs(types)
+      while (active < concurrency) {
+        const job = await claimJob(types)
+        if (!job) break
+        active++
+        runJob(job)
+          .catch((err) => console.error(`Job ${job.type} ${job._id} status update failed:`, (err as Error).message))
+          .finally(() => { active-- })
+      }
+    } catch (err) {
+      console.error('Job worker error:', (err as Error).message)
+    }
+    setTimeout(tick, POLL_MS)
+  }
+
+  console.log(`Job worker ${WORKER_ID} started (${types.join(', ')})`)
+  tick()
+}
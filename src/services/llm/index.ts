@@ -0,0 +1,47 @@
+import { createOpenAIProvider } from './openai.provider'
+import { createVertexProvider } from './vertex.provider'
+import { createStubProvider } from './stub.provider'
+import { LLMProvider, LLMProviderConfig, LLMProviderName, LLM_PROVIDER_NAMES } from './types'
+
+export * from './types'
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value)
+}
+
+// Workspace setting wins; otherwise LLM_PROVIDER / LLM_MODEL from the environment.
+// No cross-vendor fallback — a workspace pinned to one vendor must never leak to another.
+export function getLLMProvider(config: LLMProviderConfig = {}): LLMProvider {
+  const envProvider = process.env.LLM_PROVIDER
+  const name: LLMProviderName = config.provider
+    || (isLLMProviderName(envProvider) ? envProvider : 'openai')
+  // LLM_MODEL only applies to the env-selected provider, not to a workspace override
+  const model = config.model || (config.provider ? undefined : process.env.LLM_MODEL) || undefined
+
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({
+        name: 'openai',
+        model: model || 'gpt-4o',
+        apiKey: process.env.OPENAI_API_KEY,
+        supportsVision: true,
+      })
+    case 'local':
+      return createOpenAIProvider({
+        name: 'local',
+        model: model || process.env.LLM_LOCAL_MODEL || 'llama3.1',
+        apiKey: process.env.LLM_LOCAL_API_KEY,
+        baseURL: process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+        // Most local models are text-only; set for llava, qwen-vl and the like
+        supportsVision: process.env.LLM_LOCAL_VISION === 'true',
+      })
+    case 'vertex':
+      return createVertexProvider({
+        model: model || process.env.LLM_VERTEX_MODEL || 'gemini-2.5-flash',
+        projectId: process.env.GEMINI_PROJECT_ID as string,
+        location: process.env.GEMINI_LOCATION || 'us-central1',
+      })
+    case 'stub':
+      return createStubProvider()
+  }
+}
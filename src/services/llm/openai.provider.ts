@@ -0,0 +1,52 @@
+import OpenAI from 'openai'
+import { LLMMessage, LLMProvider, LLMProviderName, LLMRequest, messageText } from './types'
+
+interface OpenAIProviderOptions {
+  name: LLMProviderName
+  model: string
+  apiKey?: string
+  baseURL?: string
+  supportsVision: boolean
+}
+
+function toChatMessage(message: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (typeof message.content === 'string' || message.role !== 'user') {
+    return { role: message.role, content: messageText(message.content) }
+  }
+  return {
+    role: 'user',
+    content: message.content.map((part): OpenAI.Chat.ChatCompletionContentPart =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+    ),
+  }
+}
+
+// Used for both api.openai.com and OpenAI-compatible local servers (vLLM, Ollama, LM Studio)
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey || 'not-needed',
+    baseURL: options.baseURL,
+  })
+
+  return {
+    name: options.name,
+    model: options.model,
+    supportsVision: options.supportsVision,
+
+    async complete(request: LLMRequest): Promise<string> {
+      const completion = await client.chat.completions.create({
+        model: options.model,
+        messages: request.messages.map(toChatMessage),
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        temperature: request.temperature ?? 0.3,
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      })
+
+      const text = completion.choices[0]?.message?.content
+      if (!text) throw new Error(`No content in ${options.name} response`)
+      return text
+    },
+  }
+}
@@ -0,0 +1,133 @@
+import { LLMProvider, LLMRequest, messageText } from './types'
+
+type StubResponder = (request: LLMRequest) => string
+
+function userText(request: LLMRequest): string {
+  return request.messages
+    .filter((m) => m.role === 'user')
+    .map((m) => messageText(m.content))
+    .join('\n')
+}
+
+function matchLine(text: string, label: string): string {
+  const match = text.match(new RegExp(`^-?\\s*${label}:\\s*(.*)$`, 'mi'))
+  return match ? match[1].trim() : ''
+}
+
+// Builds a KT document straight from the prompt — no model involved, same input → same output
+function stubDocument(request: LLMRequest): string {
+  const text = userText(request)
+  const employee = matchLine(text, 'Employee') || 'Employee'
+  const role = matchLine(text, 'Role') || 'Role'
+  const topics = matchLine(text, 'Topics to cover')
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+
+  // Verbatim "TRANSCRIPT:" turns, or "- " bullets from map-reduced "TRANSCRIPT NOTES"
+  const transcriptStart = text.indexOf('\nTRANSCRIPT')
+  const lines = transcriptStart === -1
+    ? []
+    : text
+        .slice(transcriptStart)
+        .split('\n')
+        .map((l) => l.trim())
+        .filter((l) => /^(EMPLOYEE:|AI:|- )/.test(l))
+  const employeeLines = lines
+    .filter((l) => !l.startsWith('AI:'))
+    .map((l) => l.replace(/^(EMPLOYEE:|-)\s*/, ''))
+
+  const headings = topics.length > 0 ? topics : ['Overview']
+  const perSection = Math.max(1, Math.ceil(employeeLines.length / headings.length))
+  // Attached screenshots go round-robin across sections, captioned with what was said
+  const figures = Array.from(text.matchAll(/^Figure (\d+) \([\d:]+\): "(.*)"$/gm))
+
+  return JSON.stringify({
+    title: `Knowledge Transfer: ${role} — ${employee}`,
+    executiveSummary: `Offline stub document generated from ${lines.length} transcript turns.`,
+    sections: headings.map((heading, i) => {
+      const excerpt = employeeLines.slice(i * perSection, (i + 1) * perSection)
+      return {
+        heading,
+        content: excerpt.join('\n') || 'Not discussed.',
+        gaps: excerpt.length === 0 ? `${heading} was not covered.` : '',
+        figures: figures
+          .filter((_, f) => f % headings.length === i)
+          .map((m) => ({ figure: Number(m[1]), caption: m[2].slice(0, 80) })),
+      }
+    }),
+    criticalKnowledge: employeeLines.slice(0, 3),
+    handoverRisks: [],
+    gaps: headings.filter((_, i) => employeeLines.length <= i * perSection),
+    recommendedActions: [],
+    followUpQuestions: [],
+  })
+}
+
+// One note per employee turn, all under a single topic
+function stubChunkNotes(request: LLMRequest): string {
+  const notes = userText(request)
+    .split('\n')
+    .filter((l) => l.startsWith('EMPLOYEE:'))
+    .map((l) => l.replace(/^EMPLOYEE:\s*/, ''))
+  return JSON.stringify({
+    topics: [{ topic: 'General', notes }],
+    criticalKnowledge: [],
+    handoverRisks: [],
+    gaps: [],
+    openQuestions: [],
+  })
+}
+
+// Keeps the first half of each topic's notes
+function stubCondenseNotes(request: LLMRequest): string {
+  const text = userText(request)
+  const start = text.indexOf('NOTES JSON:')
+  const end = text.indexOf('\n\nReturn ONLY', start)
+  const notes = JSON.parse(text.slice(start + 'NOTES JSON:'.length, end))
+  for (const topic of notes.topics) {
+    topic.notes = topic.notes.slice(0, Math.ceil(topic.notes.length / 2))
+  }
+  return JSON.stringify(notes)
+}
+
+// A topic moves up one step each time an employee turn mentions one of its words
+function stubTopicCoverage(request: LLMRequest): string {
+  const text = userText(request)
+  const employeeText = text
+    .split('\n')
+    .filter((l) => l.startsWith('EMPLOYEE:'))
+    .join(' ')
+    .toLowerCase()
+
+  const updates = text
+    .split('\n')
+    .map((l) => l.match(/^(\d+)\. \[(\w+)\] (.+)$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .filter((m) => m[3].toLowerCase().split(/\W+/).some((w) => w.length > 3 && employeeText.includes(w)))
+    .map((m) => ({ topic: Number(m[1]), status: m[2] === 'not_started' ? 'partial' : 'covered' }))
+
+  return JSON.stringify({ updates })
+}
+
+const responders: Record<string, StubResponder> = {
+  kt_document: stubDocument,
+  kt_chunk_notes: stubChunkNotes,
+  kt_notes_condense: stubCondenseNotes,
+  topic_coverage: stubTopicCoverage,
+}
+
+// Deterministic offline provider for tests and demos without API keys
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+    model: 'stub',
+    supportsVision: true,
+
+    async complete(request: LLMRequest): Promise<string> {
+      const responder = responders[request.purpose]
+      if (responder) return responder(request)
+      return request.json ? '{}' : ''
+    },
+  }
+}
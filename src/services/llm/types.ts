@@ -0,0 +1,39 @@
+export type LLMProviderName = 'openai' | 'vertex' | 'local' | 'stub'
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'vertex', 'local', 'stub']
+
+// Images go inline as base64 — only send them to providers with supportsVision
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | LLMContentPart[]
+}
+
+export interface LLMRequest {
+  // What the call is for, e.g. 'kt_document' — lets the stub answer deterministically
+  purpose: string
+  messages: LLMMessage[]
+  json?: boolean
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  supportsVision: boolean
+  complete(request: LLMRequest): Promise<string>
+}
+
+export const messageText = (content: LLMMessage['content']): string =>
+  typeof content === 'string'
+    ? content
+    : content.map((part) => (part.type === 'text' ? part.text : '')).join('\n')
+
+export interface LLMProviderConfig {
+  provider?: LLMProviderName | null
+  model?: string | null
+}
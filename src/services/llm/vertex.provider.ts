@@ -0,0 +1,66 @@
+import getGoogleAccessToken from '../../utils/getGoogleAccessToken'
+import { LLMContentPart, LLMProvider, LLMRequest, messageText } from './types'
+
+const toPart = (part: LLMContentPart) =>
+  part.type === 'text' ? { text: part.text } : { inlineData: { mimeType: part.mimeType, data: part.data } }
+
+interface VertexProviderOptions {
+  model: string
+  projectId: string
+  location: string
+}
+
+// Vertex AI Gemini via the REST generateContent endpoint
+export function createVertexProvider(options: VertexProviderOptions): LLMProvider {
+  const { model, projectId, location } = options
+  const url = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${model}:generateContent`
+
+  return {
+    name: 'vertex',
+    model,
+    supportsVision: true,
+
+    async complete(request: LLMRequest): Promise<string> {
+      const system = request.messages.filter((m) => m.role === 'system')
+      const contents = request.messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: typeof m.content === 'string' ? [{ text: m.content }] : m.content.map(toPart),
+        }))
+
+      const body: any = {
+        contents,
+        generationConfig: {
+          temperature: request.temperature ?? 0.3,
+          ...(request.json ? { responseMimeType: 'application/json' } : {}),
+          ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+        },
+      }
+      if (system.length > 0) {
+        body.systemInstruction = { parts: system.map((m) => ({ text: messageText(m.content) })) }
+      }
+
+      const accessToken = await getGoogleAccessToken()
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Vertex request failed: ${response.status} ${await response.text()}`)
+      }
+
+      const data: any = await response.json()
+      const text = (data.candidates?.[0]?.content?.parts || [])
+        .map((p: any) => p.text || '')
+        .join('')
+      if (!text) throw new Error('No content in vertex response')
+      return text
+    },
+  }
+}
@@ -0,0 +1,237 @@
+import mongoose from 'mongoose'
+import Notification, { INotification } from '../models/Notification'
+import User, { IUser, NotificationKind } from '../models/User'
+import Workspace from '../models/Workspace'
+import transporter from '../config/email'
+import escapeHtml from '../utils/escapeHtml'
+import { enqueueJob, JobHandler } from './job.service'
+
+export const NOTIFICATION_JOB = 'manager_notification'
+export const NOTIFICATION_DIGEST_JOB = 'notification_digest'
+
+const EMAIL_TIMEZONE = process.env.EMAIL_TIMEZONE || 'UTC'
+const DIGEST_STEP_MS = 15 * 60 * 1000
+
+export const sessionDashboardUrl = (sessionId: string): string =>
+  `${process.env.FRONTEND_URL || 'http://localhost:3000'}/sessions/${sessionId}`
+
+// Next time the wall clock in EMAIL_TIMEZONE reads digestHour:00
+export function nextDigestAt(digestHour: number, from = new Date()): Date {
+  const clock = new Intl.DateTimeFormat('en-US', {
+    timeZone: EMAIL_TIMEZONE,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  })
+  let t = Math.ceil((from.getTime() + 1) / DIGEST_STEP_MS) * DIGEST_STEP_MS
+  for (let i = 0; i < (26 * 60 * 60 * 1000) / DIGEST_STEP_MS; i++, t += DIGEST_STEP_MS) {
+    const parts = clock.formatToParts(new Date(t))
+    const hour = Number(parts.find((p) => p.type === 'hour')?.value)
+    const minute = Number(parts.find((p) => p.type === 'minute')?.value)
+    if (hour === digestHour && minute === 0) return new Date(t)
+  }
+  return new Date(from.getTime() + 24 * 60 * 60 * 1000)
+}
+
+interface NotificationSession {
+  _id: any
+  workspaceId: any
+  createdBy: any
+  employeeName: string
+  role: string
+}
+
+// Fire-and-forget — a mail problem must never break the interview or the generation job
+export function notifyManager(session: NotificationSession, kind: NotificationKind, data: Record<string, any> = {}): void {
+  queueNotification(session, kind, data).catch((err) =>
+    console.error(`Notification ${kind} for session ${session._id} not queued:`, err.message)
+  )
+}
+
+async function queueNotification(session: NotificationSession, kind: NotificationKind, data: Record<string, any>) {
+  if (!session.createdBy) return
+  const user = await User.findById(session.createdBy).select('notificationPreferences')
+  const delivery = user?.notificationPreferences?.[kind] || 'immediate'
+  if (!user || delivery === 'off') return
+
+  const notification = await Notification.create({
+    userId: user._id,
+    workspaceId: session.workspaceId,
+    sessionId: session._id,
+    kind,
+    delivery,
+    data: { employeeName: session.employeeName, role: session.role, ...data },
+  })
+
+  if (delivery === 'immediate') {
+    await enqueueJob(
+      NOTIFICATION_JOB,
+      { notificationId: String(notification._id) },
+      { sessionId: session._id, workspaceId: session.workspaceId, maxAttempts: 3 }
+    )
+    return
+  }
+
+  // One digest job per user per send time — later notifications ride along with it. The key
+  // includes the send time so a notification arriving while today's digest is already running
+  // queues tomorrow's instead of attaching to the one that has already read its list.
+  const runAt = nextDigestAt(user.notificationPreferences.digestHour)
+  await enqueueJob(
+    NOTIFICATION_DIGEST_JOB,
+    { userId: String(user._id) },
+    {
+      key: `${NOTIFICATION_DIGEST_JOB}:${user._id}:${runAt.toISOString()}`,
+      maxAttempts: 3,
+      runAt,
+    }
+  )
+}
+
+function describe(notification: INotification): { subject: string; heading: string; body: string } {
+  const { employeeName, role } = notification.data
+  const who = `${escapeHtml(employeeName || 'The employee')} (${escapeHtml(role || 'employee')})`
+
+  switch (notification.kind) {
+    case 'employee_joined':
+      return {
+        subject: `${employeeName} joined their knowledge transfer interview`,
+        heading: 'Interview started',
+        body: `<p>${who} has joined the interview and it is now in progress.</p>`,
+      }
+    case 'interview_ended':
+      return {
+        subject: `${employeeName}'s knowledge transfer interview has ended`,
+        heading: 'Interview ended',
+        body: `<p>The interview with ${who} has ended.${notification.data.generating ? ' The KT document is being generated now.' : ''}</p>`,
+      }
+    case 'document_ready':
+      return {
+        subject: `KT document ready: ${notification.data.title || employeeName}`,
+        heading: escapeHtml(notification.data.title || 'KT document ready'),
+        body: `<p>The knowledge transfer document for ${who} is ready.</p>${
+          notification.data.executiveSummary
+            ? `<p style="color: #333; border-left: 3px solid #ddd; padding-left: 12px;">${escapeHtml(notification.data.executiveSummary)}</p>`
+            : ''
+        }`,
+      }
+    case 'document_failed':
+      return {
+        subject: `KT document generation failed for ${employeeName}`,
+        heading: 'Document generation failed',
+        body: `<p>We could not generate the knowledge transfer document for ${who}.</p>${
+          notification.data.reason ? `<p style="color: #666;"><strong>Reason:</strong> ${escapeHtml(notification.data.reason)}</p>` : ''
+        }<p>You can retry generation from the session page.</p>`,
+      }
+  }
+}
+
+const openButton = (sessionId: string, label: string): string => `
+          <a href="${sessionDashboardUrl(sessionId)}"
+             style="display: inline-block; padding: 12px 24px; background: #111; color: #fff;
+                    text-decoration: none; border-radius: 8px; margin: 20px 0;">
+            ${label}
+          </a>`
+
+function buildNotificationEmail(user: IUser, notification: INotification, workspaceName: string) {
+  const { subject, heading, body } = describe(notification)
+  const label = notification.kind === 'document_ready' ? 'Open document' : 'View session'
+  return {
+    from: `"KT Pro" <${process.env.GMAIL_USER}>`,
+    to: user.email,
+    subject,
+    html: `
+        <div style="font-family: Arial, sans-serif; max-width: 400px; margin: 0 auto;">
+          <h2>${heading}</h2>
+          ${body}${openButton(String(notification.sessionId), label)}
+          <p style="color: #666;">${escapeHtml(workspaceName)} · Change which emails you get in your notification settings.</p>
+        </div>
+      `,
+  }
+}
+
+function buildDigestEmail(user: IUser, notifications: INotification[]) {
+  const items = notifications
+    .map((n) => {
+      const { heading, body } = describe(n)
+      return `
+          <div style="border-top: 1px solid #eee; padding: 12px 0;">
+            <h3 style="margin: 0 0 8px;">${heading}</h3>
+            ${body}
+            <a href="${sessionDashboardUrl(String(n.sessionId))}">View session</a>
+          </div>`
+    })
+    .join('')
+
+  return {
+    from: `"KT Pro" <${process.env.GMAIL_USER}>`,
+    to: user.email,
+    subject: `Your KT Pro daily digest: ${notifications.length} update${notifications.length === 1 ? '' : 's'}`,
+    html: `
+        <div style="font-family: Arial, sans-serif; max-width: 400px; margin: 0 auto;">
+          <h2>Hi ${escapeHtml(user.name || user.email)},</h2>
+          <p>Here is what happened in your knowledge transfer sessions since the last digest.</p>
+          ${items}
+          <p style="color: #666;">Change which emails you get in your notification settings.</p>
+        </div>
+      `,
+  }
+}
+
+async function setStatus(ids: mongoose.Types.ObjectId[], fields: Record<string, any>): Promise<void> {
+  await Notification.updateMany({ _id: { $in: ids } }, { $set: fields })
+}
+
+export const notificationJobHandler: JobHandler = {
+  async run(job) {
+    const notification = await Notification.findById(job.payload.notificationId)
+    if (!notification || notification.status === 'sent') return
+
+    const [user, workspace] = await Promise.all([
+      User.findById(notification.userId),
+      Workspace.findById(notification.workspaceId).select('name'),
+    ])
+    if (!user) return
+
+    try {
+      await transporter.sendMail(buildNotificationEmail(user, notification, workspace?.name || 'KT Pro'))
+    } catch (err) {
+      await setStatus([notification._id as mongoose.Types.ObjectId], { error: (err as Error).message })
+      throw err
+    }
+
+    await setStatus([notification._id as mongoose.Types.ObjectId], { status: 'sent', sentAt: new Date(), error: null })
+  },
+
+  async onDeadLetter(job, error) {
+    await Notification.updateOne({ _id: job.payload.notificationId }, { $set: { status: 'failed', error } })
+  },
+}
+
+// Sends whatever has collected since the last digest; an empty digest is not sent
+export const notificationDigestJobHandler: JobHandler = {
+  async run(job) {
+    const user = await User.findById(job.payload.userId)
+    if (!user) return
+
+    const notifications = await Notification.find({ userId: user._id, delivery: 'digest', status: 'queued' })
+      .sort({ createdAt: 1 })
+    if (notifications.length === 0) return
+
+    const ids = notifications.map((n) => n._id as mongoose.Types.ObjectId)
+    try {
+      await transporter.sendMail(buildDigestEmail(user, notifications))
+    } catch (err) {
+      await setStatus(ids, { error: (err as Error).message })
+      throw err
+    }
+
+    await setStatus(ids, { status: 'sent', sentAt: new Date(), error: null })
+  },
+
+  async onDeadLetter(job, error) {
+    await Notification.updateMany(
+      { userId: job.payload.userId, delivery: 'digest', status: 'queued' },
+      { $set: { status: 'failed', error } }
+    )
+  },
+}
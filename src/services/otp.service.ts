@@ -0,0 +1,169 @@
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import OTP from '../models/OTP'
+import AuthThrottle from '../models/AuthThrottle'
+import generateOTP from '../utils/generateOTP'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+export const OTP_TTL_MS = 10 * MINUTE_MS
+const MAX_VERIFY_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS) || 5
+const LOCKOUT_MS = (Number(process.env.OTP_LOCKOUT_MINUTES) || 15) * MINUTE_MS
+const EMAIL_SEND_COOLDOWN_MS = (Number(process.env.OTP_SEND_COOLDOWN_SECONDS) || 60) * 1000
+const EMAIL_SENDS_PER_HOUR = Number(process.env.OTP_EMAIL_SENDS_PER_HOUR) || 5
+const IP_SENDS_PER_HOUR = Number(process.env.OTP_IP_SENDS_PER_HOUR) || 20
+const IP_FAILED_VERIFIES_PER_HOUR = Number(process.env.OTP_IP_FAILURES_PER_HOUR) || 30
+
+export type OtpDenialCode =
+  | 'OTP_LOCKED'
+  | 'OTP_COOLDOWN'
+  | 'OTP_RATE_LIMITED'
+  | 'OTP_NOT_FOUND'
+  | 'OTP_EXPIRED'
+  | 'OTP_INVALID'
+
+export interface OtpDenial {
+  status: number
+  code: OtpDenialCode
+  message: string
+  retryAfterMs?: number
+  attemptsRemaining?: number
+}
+
+const tooMany = (code: OtpDenialCode, message: string, until: number): OtpDenial => ({
+  status: 429,
+  code,
+  message,
+  retryAfterMs: Math.max(0, until - Date.now()),
+})
+
+async function readWindow(key: string, windowMs: number): Promise<{ count: number; resetsAt: number; lastAt: Date | null }> {
+  const doc = await AuthThrottle.findOne({ key })
+  if (!doc || doc.windowStartsAt.getTime() + windowMs <= Date.now()) {
+    return { count: 0, resetsAt: Date.now() + windowMs, lastAt: doc?.lastAt || null }
+  }
+  return { count: doc.count, resetsAt: doc.windowStartsAt.getTime() + windowMs, lastAt: doc.lastAt }
+}
+
+async function hitWindow(key: string, windowMs: number): Promise<void> {
+  const now = new Date()
+  // Start a fresh window once the old one has passed
+  await AuthThrottle.updateOne(
+    { key, windowStartsAt: { $lte: new Date(now.getTime() - windowMs) } },
+    { $set: { count: 0, windowStartsAt: now } }
+  )
+  await AuthThrottle.updateOne(
+    { key },
+    {
+      $inc: { count: 1 },
+      $set: { lastAt: now, expiresAt: new Date(now.getTime() + Math.max(windowMs, LOCKOUT_MS)) },
+      $setOnInsert: { windowStartsAt: now },
+    },
+    { upsert: true }
+  )
+}
+
+async function lockedUntil(email: string): Promise<number | null> {
+  const lock = await AuthThrottle.findOne({ key: `lock:email:${email}` })
+  const until = lock?.lockedUntil?.getTime() || 0
+  return until > Date.now() ? until : null
+}
+
+async function lockEmail(email: string): Promise<number> {
+  const until = Date.now() + LOCKOUT_MS
+  await AuthThrottle.updateOne(
+    { key: `lock:email:${email}` },
+    {
+      $set: { lockedUntil: new Date(until), lastAt: new Date(), expiresAt: new Date(until) },
+      $setOnInsert: { windowStartsAt: new Date() },
+    },
+    { upsert: true }
+  )
+  return until
+}
+
+// Checks lockout and throttles, then replaces any outstanding code with a new one.
+// Returns the plaintext code for the email, or why it can't be sent.
+export async function issueOTP(email: string, ip: string): Promise<{ otp: string } | OtpDenial> {
+  const locked = await lockedUntil(email)
+  if (locked) return tooMany('OTP_LOCKED', 'Too many incorrect codes. Try again later.', locked)
+
+  const [byEmail, byIp] = await Promise.all([
+    readWindow(`send:email:${email}`, HOUR_MS),
+    readWindow(`send:ip:${ip}`, HOUR_MS),
+  ])
+
+  if (byEmail.lastAt && byEmail.lastAt.getTime() + EMAIL_SEND_COOLDOWN_MS > Date.now()) {
+    return tooMany('OTP_COOLDOWN', 'Please wait before requesting another code.', byEmail.lastAt.getTime() + EMAIL_SEND_COOLDOWN_MS)
+  }
+  if (byEmail.count >= EMAIL_SENDS_PER_HOUR) {
+    return tooMany('OTP_RATE_LIMITED', 'Too many codes requested for this email. Try again later.', byEmail.resetsAt)
+  }
+  if (byIp.count >= IP_SENDS_PER_HOUR) {
+    return tooMany('OTP_RATE_LIMITED', 'Too many codes requested. Try again later.', byIp.resetsAt)
+  }
+
+  await Promise.all([hitWindow(`send:email:${email}`, HOUR_MS), hitWindow(`send:ip:${ip}`, HOUR_MS)])
+
+  const otp = generateOTP()
+  await OTP.deleteMany({ email })
+  await OTP.create({ email, otpHash: await bcrypt.hash(otp, 10), expiresAt: new Date(Date.now() + OTP_TTL_MS) })
+
+  return { otp }
+}
+
+// Hashes the candidate with the stored salt and compares the digests in constant time
+async function matchesHash(candidate: string, otpHash: string): Promise<boolean> {
+  const candidateHash = await bcrypt.hash(candidate, otpHash.slice(0, 29))
+  const a = Buffer.from(candidateHash)
+  const b = Buffer.from(otpHash)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+// Null when the code is correct — the code is consumed either way once attempts run out
+export async function verifyOTPCode(email: string, otp: string, ip: string): Promise<OtpDenial | null> {
+  const locked = await lockedUntil(email)
+  if (locked) return tooMany('OTP_LOCKED', 'Too many incorrect codes. Try again later.', locked)
+
+  const byIp = await readWindow(`verify:ip:${ip}`, HOUR_MS)
+  if (byIp.count >= IP_FAILED_VERIFIES_PER_HOUR) {
+    return tooMany('OTP_RATE_LIMITED', 'Too many failed attempts. Try again later.', byIp.resetsAt)
+  }
+
+  const existing = await OTP.findOne({ email })
+  if (!existing || !existing.otpHash) {
+    return { status: 400, code: 'OTP_NOT_FOUND', message: 'OTP not found. Request a new one.' }
+  }
+
+  if (new Date() > existing.expiresAt) {
+    await OTP.deleteMany({ email })
+    return { status: 400, code: 'OTP_EXPIRED', message: 'OTP expired. Request a new one.' }
+  }
+
+  // Reserve the attempt before comparing so parallel guesses can't share one
+  const record = await OTP.findOneAndUpdate(
+    { _id: existing._id, attempts: { $lt: MAX_VERIFY_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  )
+  if (!record) {
+    await OTP.deleteMany({ email })
+    return tooMany('OTP_LOCKED', 'Too many incorrect codes. Try again later.', await lockEmail(email))
+  }
+
+  if (await matchesHash(String(otp), record.otpHash)) {
+    await OTP.deleteMany({ email })
+    return null
+  }
+
+  await hitWindow(`verify:ip:${ip}`, HOUR_MS)
+
+  const attemptsRemaining = MAX_VERIFY_ATTEMPTS - record.attempts
+  if (attemptsRemaining <= 0) {
+    await OTP.deleteMany({ email })
+    return tooMany('OTP_LOCKED', 'Too many incorrect codes. Try again later.', await lockEmail(email))
+  }
+
+  return { status: 400, code: 'OTP_INVALID', message: 'Invalid OTP', attemptsRemaining }
+}
@@ -0,0 +1,190 @@
+import mongoose from 'mongoose'
+import Session from '../models/Session'
+import Workspace from '../models/Workspace'
+import WorkspaceMember from '../models/WorkspaceMember'
+import WorkspaceInvite from '../models/WorkspaceInvite'
+import WorkspaceUsage from '../models/WorkspaceUsage'
+import { getPlanLimits, Plan, PlanLimits } from '../config/plans'
+
+type Id = mongoose.Types.ObjectId | string
+
+export type QuotaCode =
+  | 'SESSION_LIMIT'
+  | 'DURATION_LIMIT'
+  | 'STORAGE_LIMIT'
+  | 'REGENERATION_LIMIT'
+  | 'MEMBER_LIMIT'
+
+export interface QuotaDenial {
+  status: number
+  code: QuotaCode
+  message: string
+  limit: number
+  used?: number
+}
+
+const GB = 1024 * 1024 * 1024
+
+// Calendar month in UTC — quotas reset at 00:00 UTC on the 1st
+export const usagePeriod = (date = new Date()): string => date.toISOString().slice(0, 7)
+
+const nextPeriodStart = (date = new Date()): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+
+// Infinity doesn't survive JSON — unlimited goes out as null
+const limitValue = (limit: number): number | null => (Number.isFinite(limit) ? limit : null)
+
+export async function getWorkspaceLimits(workspaceId: Id): Promise<{ plan: Plan; limits: PlanLimits }> {
+  const workspace = await Workspace.findById(workspaceId).select('plan')
+  const plan = (workspace?.plan || 'free') as Plan
+  return { plan, limits: getPlanLimits(plan) }
+}
+
+export async function getStorageUsed(workspaceId: Id): Promise<number> {
+  const [row] = await Session.aggregate([
+    { $match: { workspaceId: new mongoose.Types.ObjectId(String(workspaceId)) } },
+    {
+      $group: {
+        _id: null,
+        bytes: {
+          $sum: {
+            $add: [
+              { $ifNull: ['$storageBytes.frames', 0] },
+              { $ifNull: ['$storageBytes.audio', 0] },
+              { $ifNull: ['$storageBytes.recording', 0] },
+            ],
+          },
+        },
+      },
+    },
+  ])
+  return row?.bytes || 0
+}
+
+const seatsUsed = async (workspaceId: Id): Promise<number> => {
+  const [members, invites] = await Promise.all([
+    WorkspaceMember.countDocuments({ workspaceId }),
+    WorkspaceInvite.countDocuments({ workspaceId, status: 'pending', expiresAt: { $gt: new Date() } }),
+  ])
+  return members + invites
+}
+
+// Counts one unit against a monthly counter unless it's already at the limit
+async function reserveMonthly(workspaceId: Id, field: 'sessionsCreated' | 'regenerations', limit: number): Promise<boolean> {
+  const period = usagePeriod()
+  await WorkspaceUsage.updateOne(
+    { workspaceId, period },
+    { $setOnInsert: { workspaceId, period } },
+    { upsert: true }
+  ).catch((err) => {
+    // Lost a race creating the month's row — it exists now
+    if (err.code !== 11000) throw err
+  })
+
+  if (!Number.isFinite(limit)) {
+    await WorkspaceUsage.updateOne({ workspaceId, period }, { $inc: { [field]: 1 } })
+    return true
+  }
+
+  const reserved = await WorkspaceUsage.updateOne(
+    { workspaceId, period, [field]: { $lt: limit } },
+    { $inc: { [field]: 1 } }
+  )
+  return reserved.modifiedCount === 1
+}
+
+// For when the work the unit was reserved for didn't happen after all
+async function releaseMonthly(workspaceId: Id, field: 'sessionsCreated' | 'regenerations'): Promise<void> {
+  await WorkspaceUsage.updateOne(
+    { workspaceId, period: usagePeriod(), [field]: { $gt: 0 } },
+    { $inc: { [field]: -1 } }
+  )
+}
+
+export function checkDuration(limits: PlanLimits, minutes: number): QuotaDenial | null {
+  if (minutes <= limits.maxDurationMinutes) return null
+  return {
+    status: 403,
+    code: 'DURATION_LIMIT',
+    message: `Your plan allows interviews of up to ${limits.maxDurationMinutes} minutes`,
+    limit: limits.maxDurationMinutes,
+  }
+}
+
+// extraBytes is what the caller is about to add — 0 just checks there is room left at all
+export async function checkStorage(workspaceId: Id, limits: PlanLimits, extraBytes = 0): Promise<QuotaDenial | null> {
+  const used = await getStorageUsed(workspaceId)
+  if (extraBytes > 0 ? used + extraBytes <= limits.maxStorageBytes : used < limits.maxStorageBytes) return null
+  return {
+    status: 403,
+    code: 'STORAGE_LIMIT',
+    message: `Your workspace has used its ${Math.round(limits.maxStorageBytes / GB)} GB of storage`,
+    limit: limits.maxStorageBytes,
+    used,
+  }
+}
+
+export async function reserveSession(workspaceId: Id, limits: PlanLimits): Promise<QuotaDenial | null> {
+  if (await reserveMonthly(workspaceId, 'sessionsCreated', limits.sessionsPerMonth)) return null
+  return {
+    status: 403,
+    code: 'SESSION_LIMIT',
+    message: `Your plan allows ${limits.sessionsPerMonth} new sessions a month`,
+    limit: limits.sessionsPerMonth,
+    used: limits.sessionsPerMonth,
+  }
+}
+
+export const releaseSession = (workspaceId: Id): Promise<void> => releaseMonthly(workspaceId, 'sessionsCreated')
+
+export async function reserveRegeneration(workspaceId: Id, limits: PlanLimits): Promise<QuotaDenial | null> {
+  if (await reserveMonthly(workspaceId, 'regenerations', limits.regenerationsPerMonth)) return null
+  return {
+    status: 403,
+    code: 'REGENERATION_LIMIT',
+    message: `Your plan allows ${limits.regenerationsPerMonth} document regenerations a month`,
+    limit: limits.regenerationsPerMonth,
+    used: limits.regenerationsPerMonth,
+  }
+}
+
+export const releaseRegeneration = (workspaceId: Id): Promise<void> => releaseMonthly(workspaceId, 'regenerations')
+
+// Pending invites hold a seat, so a batch of invites can't overshoot the plan on acceptance
+export async function checkMemberSeat(workspaceId: Id, limits: PlanLimits): Promise<QuotaDenial | null> {
+  if (!Number.isFinite(limits.maxMembers)) return null
+  const used = await seatsUsed(workspaceId)
+  if (used < limits.maxMembers) return null
+  return {
+    status: 403,
+    code: 'MEMBER_LIMIT',
+    message: `Your plan allows ${limits.maxMembers} members, including pending invites`,
+    limit: limits.maxMembers,
+    used,
+  }
+}
+
+export async function getWorkspaceUsage(workspaceId: Id) {
+  const { plan, limits } = await getWorkspaceLimits(workspaceId)
+  const [monthly, storageBytes, members] = await Promise.all([
+    WorkspaceUsage.findOne({ workspaceId, period: usagePeriod() }),
+    getStorageUsed(workspaceId),
+    seatsUsed(workspaceId),
+  ])
+
+  return {
+    plan,
+    period: usagePeriod(),
+    resetsAt: nextPeriodStart(),
+    usage: {
+      sessions: { used: monthly?.sessionsCreated || 0, limit: limitValue(limits.sessionsPerMonth) },
+      regenerations: { used: monthly?.regenerations || 0, limit: limitValue(limits.regenerationsPerMonth) },
+      storageBytes: { used: storageBytes, limit: limitValue(limits.maxStorageBytes) },
+      members: { used: members, limit: limitValue(limits.maxMembers) },
+    },
+    limits: {
+      maxDurationMinutes: limitValue(limits.maxDurationMinutes),
+      maxAudioUploadBytes: limitValue(limits.maxAudioUploadBytes),
+    },
+  }
+}
@@ -0,0 +1,231 @@
+import mongoose from 'mongoose'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import Session from '../models/Session'
+import { getStorage } from './storage'
+import { checkInviteAccess } from './invite.service'
+
+// Both channels are stored at the voice backend's output rate; the mic is resampled up to it
+const RECORDING_SAMPLE_RATE = 24000
+const BYTES_PER_SAMPLE = 2
+const RECORDING_DIR = process.env.RECORDING_TMP_DIR || path.join(os.tmpdir(), 'ktpro-recordings')
+// Small arrival jitter is not silence — only pad gaps longer than this
+const MIN_GAP_SAMPLES = RECORDING_SAMPLE_RATE / 4
+const READ_BLOCK_SAMPLES = 1024 * 1024
+const UPLOAD_PART_BYTES = 8 * 1024 * 1024
+// Channel files untouched this long are checked against their session and removed once it
+// can no longer be resumed or finalized
+const ABANDONED_AFTER_MS = 60 * 60 * 1000
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000
+
+type Channel = 'employee' | 'ai'
+
+// Uploads in progress per session, so the channel files aren't deleted from under one
+const savesInFlight = new Map<string, Promise<unknown>>()
+let lastSweepAt = 0
+
+export interface InterviewRecorder {
+  addEmployeeAudio(base64Pcm: string, sampleRate: number): void
+  addAiAudio(base64Pcm: string, sampleRate: number): void
+  // Writes the stereo WAV (employee left, AI right) to storage; null if nothing was captured
+  save(): Promise<{ key: string; bytes: number } | null>
+}
+
+export const recordingKey = (sessionId: string): string => `sessions/${sessionId}/recording.wav`
+
+const channelFile = (sessionId: string, channel: Channel): string =>
+  path.join(RECORDING_DIR, sessionId, `${channel}.pcm`)
+
+// e.g. "audio/pcm;rate=16000" — the Live API's input default is 16 kHz
+export function pcmSampleRate(mimeType: string, fallback = 16000): number {
+  const rate = Number(mimeType.match(/rate=(\d+)/)?.[1])
+  return rate > 0 ? rate : fallback
+}
+
+// Linear interpolation is plenty for speech at these rates
+function resamplePcm16(input: Buffer, fromRate: number, toRate: number): Buffer {
+  if (fromRate === toRate) return input
+  const inSamples = Math.floor(input.length / BYTES_PER_SAMPLE)
+  const outSamples = Math.floor((inSamples * toRate) / fromRate)
+  const output = Buffer.alloc(outSamples * BYTES_PER_SAMPLE)
+  for (let i = 0; i < outSamples; i++) {
+    const pos = (i * fromRate) / toRate
+    const left = Math.min(Math.floor(pos), inSamples - 1)
+    const right = Math.min(left + 1, inSamples - 1)
+    const frac = pos - left
+    const value = input.readInt16LE(left * 2) * (1 - frac) + input.readInt16LE(right * 2) * frac
+    output.writeInt16LE(Math.round(value), i * 2)
+  }
+  return output
+}
+
+function wavHeader(dataBytes: number): Buffer {
+  const header = Buffer.alloc(44)
+  const channels = 2
+  header.write('RIFF', 0)
+  header.writeUInt32LE(36 + dataBytes, 4)
+  header.write('WAVE', 8)
+  header.write('fmt ', 12)
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20) // PCM
+  header.writeUInt16LE(channels, 22)
+  header.writeUInt32LE(RECORDING_SAMPLE_RATE, 24)
+  header.writeUInt32LE(RECORDING_SAMPLE_RATE * channels * BYTES_PER_SAMPLE, 28)
+  header.writeUInt16LE(channels * BYTES_PER_SAMPLE, 32)
+  header.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34)
+  header.write('data', 36)
+  header.writeUInt32LE(dataBytes, 40)
+  return header
+}
+
+async function fileSamples(file: string): Promise<number> {
+  try {
+    return Math.floor((await fs.stat(file)).size / BYTES_PER_SAMPLE)
+  } catch {
+    return 0
+  }
+}
+
+async function readSamples(handle: fs.FileHandle | null, offset: number, count: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(count * BYTES_PER_SAMPLE) // zero-filled → silence past the end
+  if (handle) await handle.read(buffer, 0, buffer.length, offset * BYTES_PER_SAMPLE)
+  return buffer
+}
+
+async function openIfExists(file: string): Promise<fs.FileHandle | null> {
+  try {
+    return await fs.open(file, 'r')
+  } catch {
+    return null
+  }
+}
+
+// Interleaves the two mono channel files into a WAV and streams it to storage in parts
+async function uploadWav(sessionId: string, totalSamples: number): Promise<string> {
+  const storage = getStorage()
+  const key = recordingKey(sessionId)
+  const uploadId = await storage.createMultipartUpload(key, 'audio/wav')
+  const employee = await openIfExists(channelFile(sessionId, 'employee'))
+  const ai = await openIfExists(channelFile(sessionId, 'ai'))
+  const parts: { partNumber: number; etag: string }[] = []
+  let pending: Buffer[] = [wavHeader(totalSamples * 2 * BYTES_PER_SAMPLE)]
+  let pendingBytes = 44
+
+  async function flush() {
+    const partNumber = parts.length + 1
+    parts.push({ partNumber, etag: await storage.uploadPart(key, uploadId, partNumber, Buffer.concat(pending)) })
+    pending = []
+    pendingBytes = 0
+  }
+
+  try {
+    for (let offset = 0; offset < totalSamples; offset += READ_BLOCK_SAMPLES) {
+      const count = Math.min(READ_BLOCK_SAMPLES, totalSamples - offset)
+      const left = await readSamples(employee, offset, count)
+      const right = await readSamples(ai, offset, count)
+      const block = Buffer.alloc(count * 2 * BYTES_PER_SAMPLE)
+      for (let i = 0; i < count; i++) {
+        block.writeInt16LE(left.readInt16LE(i * 2), i * 4)
+        block.writeInt16LE(right.readInt16LE(i * 2), i * 4 + 2)
+      }
+      pending.push(block)
+      pendingBytes += block.length
+      if (pendingBytes >= UPLOAD_PART_BYTES) await flush()
+    }
+    if (pendingBytes > 0) await flush()
+    await storage.completeMultipartUpload(key, uploadId, parts)
+  } catch (err) {
+    await storage.abortMultipartUpload(key, uploadId).catch(() => {})
+    throw err
+  } finally {
+    await employee?.close()
+    await ai?.close()
+  }
+
+  return key
+}
+
+// Channel files live on local disk until the session is over, so a browser reconnect picks
+// the recording up where it stopped — the time spent disconnected is not kept as silence
+export async function openInterviewRecorder(sessionId: string): Promise<InterviewRecorder> {
+  if (Date.now() - lastSweepAt > SWEEP_INTERVAL_MS) {
+    lastSweepAt = Date.now()
+    sweepAbandonedRecordings().catch((err) => console.error('Recording sweep failed:', err.message))
+  }
+  await fs.mkdir(path.join(RECORDING_DIR, sessionId), { recursive: true })
+
+  const written: Record<Channel, number> = {
+    employee: await fileSamples(channelFile(sessionId, 'employee')),
+    ai: await fileSamples(channelFile(sessionId, 'ai')),
+  }
+  const origin = Date.now() - (Math.max(written.employee, written.ai) / RECORDING_SAMPLE_RATE) * 1000
+  // Appends per channel run strictly in arrival order
+  const queues: Record<Channel, Promise<void>> = { employee: Promise.resolve(), ai: Promise.resolve() }
+
+  function append(channel: Channel, base64Pcm: string, sampleRate: number) {
+    const pcm = resamplePcm16(Buffer.from(base64Pcm, 'base64'), sampleRate, RECORDING_SAMPLE_RATE)
+    // Place audio at its wall-clock position, or straight after the previous chunk if the
+    // backend sends faster than real time (AI speech arrives in bursts)
+    const now = Math.floor(((Date.now() - origin) / 1000) * RECORDING_SAMPLE_RATE)
+    const gap = now - written[channel] > MIN_GAP_SAMPLES ? now - written[channel] : 0
+    const data = gap > 0 ? Buffer.concat([Buffer.alloc(gap * BYTES_PER_SAMPLE), pcm]) : pcm
+    written[channel] += gap + Math.floor(pcm.length / BYTES_PER_SAMPLE)
+
+    queues[channel] = queues[channel]
+      .then(() => fs.appendFile(channelFile(sessionId, channel), data))
+      .catch((err) => console.error(`Recording ${sessionId} ${channel} write failed:`, err.message))
+  }
+
+  return {
+    addEmployeeAudio: (base64Pcm, sampleRate) => append('employee', base64Pcm, sampleRate),
+    addAiAudio: (base64Pcm, sampleRate) => append('ai', base64Pcm, sampleRate),
+
+    save() {
+      const saving = (async () => {
+        await Promise.all([queues.employee, queues.ai])
+        const totalSamples = Math.max(
+          await fileSamples(channelFile(sessionId, 'employee')),
+          await fileSamples(channelFile(sessionId, 'ai'))
+        )
+        if (totalSamples === 0) return null
+        const key = await uploadWav(sessionId, totalSamples)
+        return { key, bytes: 44 + totalSamples * 2 * BYTES_PER_SAMPLE }
+      })()
+      const tracked = saving.catch(() => {})
+      savesInFlight.set(sessionId, tracked)
+      tracked.then(() => {
+        if (savesInFlight.get(sessionId) === tracked) savesInFlight.delete(sessionId)
+      })
+      return saving
+    },
+  }
+}
+
+// Waits for an upload still reading the files (e.g. the one after end_session) before removing them
+export async function discardRecordingFiles(sessionId: string): Promise<void> {
+  await savesInFlight.get(sessionId)
+  await fs.rm(path.join(RECORDING_DIR, sessionId), { recursive: true, force: true })
+}
+
+// Channel files are normally removed when the interview is over or finalized. An interview the
+// employee ended but never finalized or resumed leaves them behind — drop those once the invite
+// no longer lets anyone come back to it.
+export async function sweepAbandonedRecordings(): Promise<void> {
+  const entries = await fs.readdir(RECORDING_DIR, { withFileTypes: true }).catch(() => [])
+  for (const entry of entries) {
+    if (!entry.isDirectory() || savesInFlight.has(entry.name)) continue
+    const dir = path.join(RECORDING_DIR, entry.name)
+    const { mtimeMs } = await fs.stat(dir)
+    if (Date.now() - mtimeMs < ABANDONED_AFTER_MS) continue
+
+    const session = mongoose.isValidObjectId(entry.name)
+      ? await Session.findById(entry.name).select('status inviteExpiresAt inviteRevokedAt startedAt createdAt')
+      : null
+    const resumable = session && (session.status === 'active' || session.status === 'ended') && !checkInviteAccess(session)
+    if (resumable) continue
+
+    await fs.rm(dir, { recursive: true, force: true })
+    console.log(`Removed abandoned recording files for session ${entry.name}`)
+  }
+}
@@ -0,0 +1,218 @@
+import mongoose from 'mongoose'
+import Session, { ISession, SessionEmailKind } from '../models/Session'
+import User from '../models/User'
+import Workspace from '../models/Workspace'
+import { IJob } from '../models/Job'
+import transporter from '../config/email'
+import escapeHtml from '../utils/escapeHtml'
+import buildIcs from '../utils/buildIcs'
+import { enqueueJob, JobHandler } from './job.service'
+
+export const SESSION_EMAIL_JOB = 'session_email'
+
+// Minutes before the slot, e.g. "1440,60" → a day before and an hour before
+const REMINDER_OFFSETS_MIN = (process.env.SESSION_REMINDER_MINUTES || '1440,60')
+  .split(',')
+  .map(Number)
+  .filter((n) => Number.isFinite(n) && n > 0)
+
+const EMAIL_TIMEZONE = process.env.EMAIL_TIMEZONE || 'UTC'
+
+export const sessionInviteUrl = (inviteToken: string): string =>
+  `${process.env.FRONTEND_URL || 'http://localhost:3000'}/invite/${inviteToken}`
+
+const formatSlot = (date: Date): string =>
+  date.toLocaleString('en-US', { timeZone: EMAIL_TIMEZONE, dateStyle: 'full', timeStyle: 'long' })
+
+async function queueSessionEmail(session: ISession, kind: SessionEmailKind, runAt = new Date()): Promise<IJob> {
+  const scheduledAt = session.scheduledAt ? session.scheduledAt.toISOString() : null
+  const { job } = await enqueueJob(
+    SESSION_EMAIL_JOB,
+    { sessionId: String(session._id), kind, scheduledAt, sequence: session.scheduleSequence },
+    {
+      // Keyed per schedule revision — a repeated call never doubles up a reminder
+      key: kind === 'reminder'
+        ? `${SESSION_EMAIL_JOB}:reminder:${session._id}:${session.scheduleSequence}:${runAt.getTime()}`
+        : undefined,
+      sessionId: session._id as mongoose.Types.ObjectId,
+      workspaceId: session.workspaceId,
+      maxAttempts: 3,
+      runAt,
+    }
+  )
+
+  await Session.updateOne(
+    { _id: session._id, 'emails.jobId': { $ne: job._id } },
+    {
+      $push: {
+        emails: {
+          jobId: job._id,
+          kind,
+          to: session.employeeEmail,
+          scheduledFor: runAt,
+          status: 'queued',
+          error: null,
+          sentAt: null,
+        },
+      },
+    }
+  )
+  return job
+}
+
+function queueReminders(session: ISession): Promise<IJob[]> {
+  if (!session.scheduledAt) return Promise.resolve([])
+  const now = Date.now()
+  const due = REMINDER_OFFSETS_MIN
+    .map((minutes) => new Date(session.scheduledAt!.getTime() - minutes * 60 * 1000))
+    .filter((runAt) => runAt.getTime() > now)
+  return Promise.all(due.map((runAt) => queueSessionEmail(session, 'reminder', runAt)))
+}
+
+// New session — invite straight away, plus reminders if it has a slot
+export async function queueInviteEmails(session: ISession): Promise<void> {
+  await queueSessionEmail(session, 'invite')
+  await queueReminders(session)
+}
+
+// Unscheduled sessions created without sendInvite never emailed the employee
+const wasInvited = (session: ISession): boolean => (session.emails || []).some((e) => e.kind === 'invite')
+
+// Caller has already saved the new scheduledAt and bumped scheduleSequence. An employee who
+// was never invited gets the invite now instead of a "rescheduled" notice.
+export async function queueRescheduleEmails(session: ISession): Promise<void> {
+  if (!wasInvited(session)) {
+    await queueInviteEmails(session)
+    return
+  }
+  await queueSessionEmail(session, 'reschedule')
+  await queueReminders(session)
+}
+
+// Nothing to withdraw if the employee was never told about the interview
+export async function queueCancelEmail(session: ISession): Promise<void> {
+  if (!wasInvited(session)) return
+  await queueSessionEmail(session, 'cancel')
+}
+
+async function setEmailStatus(job: IJob, fields: Record<string, any>): Promise<void> {
+  const set: Record<string, any> = {}
+  for (const [field, value] of Object.entries(fields)) set[`emails.$.${field}`] = value
+  await Session.updateOne({ _id: job.payload.sessionId, 'emails.jobId': job._id }, { $set: set })
+}
+
+// Invites and reminders are for one particular slot — a later reschedule or cancel retires them
+function isStale(session: ISession, job: IJob): boolean {
+  if (job.payload.kind === 'cancel') return false
+  if (session.status !== 'pending' || session.inviteRevokedAt) return true
+  if (job.payload.sequence !== session.scheduleSequence) return true
+  const scheduledAt = session.scheduledAt ? session.scheduledAt.toISOString() : null
+  return job.payload.scheduledAt !== scheduledAt
+}
+
+function buildSessionEmail(
+  session: ISession,
+  kind: SessionEmailKind,
+  workspaceName: string,
+  manager: { name: string; email: string }
+) {
+  const url = sessionInviteUrl(session.inviteToken)
+  const managerName = manager.name || manager.email
+  const slot = session.scheduledAt ? formatSlot(session.scheduledAt) : null
+
+  const subjects: Record<SessionEmailKind, string> = {
+    invite: `${managerName} invited you to a knowledge transfer interview`,
+    reminder: `Reminder: your knowledge transfer interview${slot ? ` on ${slot}` : ''}`,
+    reschedule: `Rescheduled: your knowledge transfer interview${slot ? ` is now ${slot}` : ''}`,
+    cancel: 'Cancelled: your knowledge transfer interview',
+  }
+
+  const intros: Record<SessionEmailKind, string> = {
+    invite: `${managerName} (${workspaceName}) has set up a ${session.duration}-minute knowledge transfer interview about your work as ${session.role}.`,
+    reminder: `This is a reminder about your ${session.duration}-minute knowledge transfer interview with ${workspaceName}.`,
+    reschedule: `${managerName} has moved your knowledge transfer interview to a new time.`,
+    cancel: `${managerName} has cancelled your knowledge transfer interview. The link below no longer works.`,
+  }
+
+  const button = kind === 'cancel' ? '' : `
+          <a href="${url}"
+             style="display: inline-block; padding: 12px 24px; background: #111; color: #fff;
+                    text-decoration: none; border-radius: 8px; margin: 20px 0;">
+            Open interview
+          </a>`
+
+  const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 400px; margin: 0 auto;">
+          <h2>Hi ${escapeHtml(session.employeeName)},</h2>
+          <p>${escapeHtml(intros[kind])}</p>
+          ${slot ? `<p><strong>When:</strong> ${slot}</p>` : ''}${button}
+          <p style="color: #666;">Questions? Reply to this email to reach ${escapeHtml(managerName)}.</p>
+        </div>
+      `
+
+  const icalEvent = session.scheduledAt
+    ? {
+        filename: kind === 'cancel' ? 'cancel.ics' : 'invite.ics',
+        method: kind === 'cancel' ? 'CANCEL' : 'REQUEST',
+        content: buildIcs({
+          uid: `session-${session._id}@ktpro`,
+          sequence: session.scheduleSequence,
+          start: session.scheduledAt,
+          durationMinutes: session.duration,
+          summary: `Knowledge transfer interview — ${session.role}`,
+          description: `${intros[kind]}\n\nJoin: ${url}`,
+          url,
+          organizerEmail: process.env.GMAIL_USER || manager.email,
+          organizerName: managerName,
+          attendeeEmail: session.employeeEmail,
+          attendeeName: session.employeeName,
+          cancelled: kind === 'cancel',
+        }),
+      }
+    : undefined
+
+  return {
+    from: `"KT Pro" <${process.env.GMAIL_USER}>`,
+    replyTo: manager.email,
+    to: session.employeeEmail,
+    subject: subjects[kind],
+    html,
+    icalEvent,
+  }
+}
+
+export const sessionEmailJobHandler: JobHandler = {
+  async run(job) {
+    const session = await Session.findById(job.payload.sessionId)
+    if (!session) return
+
+    if (isStale(session, job)) {
+      await setEmailStatus(job, { status: 'skipped', error: 'Superseded by a later change to the session' })
+      return
+    }
+
+    const [workspace, manager] = await Promise.all([
+      Workspace.findById(session.workspaceId).select('name'),
+      User.findById(session.createdBy).select('name email'),
+    ])
+
+    try {
+      await transporter.sendMail(
+        buildSessionEmail(session, job.payload.kind, workspace?.name || 'KT Pro', {
+          name: manager?.name || '',
+          email: manager?.email || process.env.GMAIL_USER || '',
+        })
+      )
+    } catch (err) {
+      // Keep the latest error visible while the job backs off
+      await setEmailStatus(job, { error: (err as Error).message })
+      throw err
+    }
+
+    await setEmailStatus(job, { status: 'sent', sentAt: new Date(), error: null })
+  },
+
+  async onDeadLetter(job, error) {
+    await setEmailStatus(job, { status: 'failed', error })
+  },
+}
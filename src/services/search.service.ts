@@ -0,0 +1,115 @@
+import { formatOffset } from '../utils/chunkTranscript'
+
+export type SearchHitField =
+  | 'transcript'
+  | 'title'
+  | 'executiveSummary'
+  | 'section'
+  | 'sectionGap'
+  | 'criticalKnowledge'
+  | 'gap'
+
+export interface SearchHit {
+  field: SearchHitField
+  snippet: string // HTML-escaped, matches wrapped in <mark>
+  heading?: string
+  speaker?: string
+  timestamp?: string // ISO time of the transcript turn
+  offset?: string // mm:ss from the start of the session
+}
+
+const SNIPPET_RADIUS = 80
+// Capped separately so a strong document match never hides who said it in the transcript
+const MAX_DOCUMENT_HITS = 3
+const MAX_TRANSCRIPT_HITS = 3
+
+const escapeHtml = (s: string): string =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const escapeRegex = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Mirrors what $text matched closely enough to highlight: quoted phrases stay whole,
+// -negated terms are dropped, words match by prefix to cover simple stemming (cron → crons)
+export function parseSearchTerms(query: string): string[] {
+  const terms: string[] = []
+  const phrase = /"([^"]+)"/g
+  let match: RegExpExecArray | null
+  while ((match = phrase.exec(query))) terms.push(match[1].trim())
+
+  query
+    .replace(phrase, ' ')
+    .split(/\s+/)
+    .filter((w) => w && !w.startsWith('-'))
+    .forEach((w) => {
+      const word = w.replace(/[^\p{L}\p{N}_-]/gu, '')
+      if (word.length > 1) terms.push(word)
+    })
+
+  return terms.filter(Boolean)
+}
+
+function termsRegex(terms: string[]): RegExp {
+  return new RegExp(`(${terms.map(escapeRegex).join('|')})[\\p{L}\\p{N}]*`, 'giu')
+}
+
+// Window of text around the first match, with every match in the window highlighted
+export function highlightSnippet(text: string, terms: string[]): string | null {
+  const regex = termsRegex(terms)
+  const first = regex.exec(text)
+  if (!first) return null
+
+  const start = Math.max(0, first.index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, first.index + first[0].length + SNIPPET_RADIUS)
+  const window = text.slice(start, end)
+
+  let html = ''
+  let last = 0
+  for (const m of window.matchAll(termsRegex(terms))) {
+    html += escapeHtml(window.slice(last, m.index)) + `<mark>${escapeHtml(m[0])}</mark>`
+    last = (m.index || 0) + m[0].length
+  }
+  html += escapeHtml(window.slice(last))
+
+  return `${start > 0 ? '…' : ''}${html}${end < text.length ? '…' : ''}`
+}
+
+// Finds where in a session the query matched — document fields first, then transcript turns
+export function collectSearchHits(session: any, terms: string[]): SearchHit[] {
+  if (terms.length === 0) return []
+  const hits: SearchHit[] = []
+  const add = (field: SearchHitField, text: string | undefined, extra: Partial<SearchHit> = {}) => {
+    const isTranscript = field === 'transcript'
+    const count = hits.filter((h) => (h.field === 'transcript') === isTranscript).length
+    if (!text || count >= (isTranscript ? MAX_TRANSCRIPT_HITS : MAX_DOCUMENT_HITS)) return
+    const snippet = highlightSnippet(text, terms)
+    if (snippet && !hits.some((h) => h.field === field && h.snippet === snippet)) {
+      hits.push({ field, snippet, ...extra })
+    }
+  }
+
+  const doc = session.document
+  if (doc) {
+    add('title', doc.title)
+    add('executiveSummary', doc.executiveSummary)
+    for (const section of doc.sections || []) {
+      add('section', section.heading, { heading: section.heading })
+      add('section', section.content, { heading: section.heading })
+      add('sectionGap', section.gaps, { heading: section.heading })
+    }
+    for (const item of doc.criticalKnowledge || []) add('criticalKnowledge', item)
+    for (const gap of doc.gaps || []) add('gap', gap)
+  }
+
+  const transcript: any[] = session.transcript || []
+  const origin = new Date(session.startedAt || transcript[0]?.timestamp || 0).getTime()
+  for (const chunk of transcript) {
+    const time = new Date(chunk.timestamp)
+    add('transcript', chunk.text, {
+      speaker: chunk.speaker,
+      timestamp: Number.isNaN(time.getTime()) ? undefined : time.toISOString(),
+      offset: Number.isNaN(time.getTime()) ? undefined : formatOffset(Math.max(0, time.getTime() - origin)),
+    })
+  }
+
+  return hits
+}
@@ -0,0 +1,97 @@
+import { createS3Driver } from './s3.driver'
+import { createLocalDriver } from './local.driver'
+import { StorageDriver, StorageDriverName, STORAGE_DRIVER_NAMES } from './types'
+
+export * from './types'
+
+export const SIGNED_URL_TTL_SECONDS = Number(process.env.STORAGE_SIGNED_URL_TTL_SECONDS) || 15 * 60
+
+export const LOCAL_STORAGE_ROOT = process.env.STORAGE_LOCAL_DIR || 'storage'
+
+// Where this API is reachable from the browser
+export const PUBLIC_API_URL = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}`
+
+export const storageSigningSecret = (): string =>
+  process.env.STORAGE_SIGNING_SECRET || (process.env.JWT_SECRET as string)
+
+let driver: StorageDriver | null = null
+
+function isStorageDriverName(value: unknown): value is StorageDriverName {
+  return typeof value === 'string' && (STORAGE_DRIVER_NAMES as string[]).includes(value)
+}
+
+// STORAGE_DRIVER picks the backend; without it, S3 when a bucket is configured, else local disk.
+// Built on first use so env vars are read at call time, not module load time.
+export function getStorage(): StorageDriver {
+  if (driver) return driver
+
+  const configured = process.env.STORAGE_DRIVER
+  const name: StorageDriverName = isStorageDriverName(configured)
+    ? configured
+    : process.env.AWS_S3_BUCKET ? 's3' : 'local'
+
+  driver = name === 's3'
+    ? createS3Driver({
+        bucket: process.env.AWS_S3_BUCKET as string,
+        region: process.env.AWS_REGION || 'ap-south-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      })
+    : createLocalDriver({
+        root: LOCAL_STORAGE_ROOT,
+        publicBaseUrl: PUBLIC_API_URL,
+        signingSecret: storageSigningSecret(),
+      })
+
+  return driver
+}
+
+export const frameKey = (sessionId: string, timestamp: number): string =>
+  `sessions/${sessionId}/frames/${timestamp}.jpg`
+
+export const audioKey = (sessionId: string, mimeType: string): string =>
+  `sessions/${sessionId}/audio.${mimeType.includes('webm') ? 'webm' : 'mp4'}`
+
+// Stable link for a frame embedded in document HTML. Signed URLs expire, so the document
+// points at an authenticated route that redirects to a fresh one.
+export const frameImageUrl = (sessionId: string, timestamp: number): string =>
+  `${PUBLIC_API_URL}/api/sessions/${sessionId}/frames/${timestamp}`
+
+export function parseFrameImageUrl(src: string): { sessionId: string; timestamp: number } | null {
+  if (!src.startsWith(`${PUBLIC_API_URL}/api/sessions/`)) return null
+  const match = src.slice(PUBLIC_API_URL.length).match(/^\/api\/sessions\/([a-f0-9]{24})\/frames\/(\d+)$/)
+  return match ? { sessionId: match[1], timestamp: Number(match[2]) } : null
+}
+
+// Sessions recorded before keys were stored hold public S3 URLs — the path is the key
+export function storedObjectKey(item: { key?: string | null; url?: string | null } | null | undefined): string | null {
+  if (!item) return null
+  if (item.key) return item.key
+  if (!item.url) return null
+  try {
+    return decodeURIComponent(new URL(item.url).pathname.replace(/^\//, '')) || null
+  } catch {
+    return null
+  }
+}
+
+export function signedUrl(key: string | null, expiresInSeconds = SIGNED_URL_TTL_SECONDS): Promise<string | null> {
+  return key ? getStorage().getSignedUrl(key, expiresInSeconds) : Promise.resolve(null)
+}
+
+// Session media with fresh signed URLs, for authenticated responses
+export async function signSessionMedia(session: any): Promise<{
+  audioUrl: string | null
+  frames: { key: string | null; timestamp: number; url: string | null }[]
+}> {
+  const audio = session.recordingKey || storedObjectKey({ key: session.audioKey, url: session.audioUrl })
+  const frames = await Promise.all(
+    (session.frames || []).map(async (frame: any) => {
+      const key = storedObjectKey(frame)
+      return { key, timestamp: frame.timestamp, url: await signedUrl(key) }
+    })
+  )
+  return { audioUrl: await signedUrl(audio), frames }
+}
@@ -0,0 +1,113 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import { StorageDriver } from './types'
+
+// Longer than the 24h an AudioUpload record lives, after which nothing can complete or abort
+// the upload and its staged parts would otherwise stay on disk
+const STALE_UPLOAD_MS = 48 * 60 * 60 * 1000
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000
+
+export interface LocalDriverConfig {
+  root: string
+  // Where GET /api/storage/object is reachable from the browser
+  publicBaseUrl: string
+  signingSecret: string
+}
+
+function sign(secret: string, key: string, expires: number): string {
+  return crypto.createHmac('sha256', secret).update(`${key}\n${expires}`).digest('hex')
+}
+
+// Keys come from our own code, but never let one climb out of the storage root
+export function resolveLocalPath(root: string, key: string): string {
+  const base = path.resolve(root)
+  const resolved = path.resolve(base, key)
+  if (!resolved.startsWith(base + path.sep)) throw new Error(`Invalid storage key: ${key}`)
+  return resolved
+}
+
+export function verifyLocalSignature(secret: string, key: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false
+  const expected = Buffer.from(sign(secret, key, expires))
+  const given = Buffer.from(signature)
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given)
+}
+
+async function removeStaleUploads(root: string): Promise<void> {
+  const staging = resolveLocalPath(root, '.uploads')
+  const entries = await fs.readdir(staging, { withFileTypes: true }).catch(() => [])
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue
+    const dir = path.join(staging, entry.name)
+    const { mtimeMs } = await fs.stat(dir)
+    if (Date.now() - mtimeMs > STALE_UPLOAD_MS) await fs.rm(dir, { recursive: true, force: true })
+  }
+}
+
+// Development driver — files on disk, served back through an HMAC-signed route
+export function createLocalDriver(config: LocalDriverConfig): StorageDriver {
+  let lastSweepAt = 0
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const file = resolveLocalPath(config.root, key)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, body)
+    },
+
+    get(key) {
+      return fs.readFile(resolveLocalPath(config.root, key))
+    },
+
+    async delete(key) {
+      await fs.rm(resolveLocalPath(config.root, key), { force: true })
+    },
+
+    // Parts are staged under .uploads/<uploadId>/ and concatenated on completion
+    async createMultipartUpload() {
+      if (Date.now() - lastSweepAt > SWEEP_INTERVAL_MS) {
+        lastSweepAt = Date.now()
+        removeStaleUploads(config.root).catch((err) => console.error('Upload staging sweep failed:', err.message))
+      }
+      const uploadId = crypto.randomBytes(16).toString('hex')
+      await fs.mkdir(resolveLocalPath(config.root, `.uploads/${uploadId}`), { recursive: true })
+      return uploadId
+    },
+
+    async uploadPart(_key, uploadId, partNumber, body) {
+      await fs.writeFile(resolveLocalPath(config.root, `.uploads/${uploadId}/${partNumber}`), body)
+      return crypto.createHash('md5').update(body).digest('hex')
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const file = resolveLocalPath(config.root, key)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      const handle = await fs.open(file, 'w')
+      try {
+        for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+          await handle.write(await fs.readFile(resolveLocalPath(config.root, `.uploads/${uploadId}/${part.partNumber}`)))
+        }
+      } finally {
+        await handle.close()
+      }
+      await fs.rm(resolveLocalPath(config.root, `.uploads/${uploadId}`), { recursive: true, force: true })
+    },
+
+    async abortMultipartUpload(_key, uploadId) {
+      await fs.rm(resolveLocalPath(config.root, `.uploads/${uploadId}`), { recursive: true, force: true })
+    },
+
+    async getSignedUrl(key, expiresInSeconds) {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+      const params = new URLSearchParams({
+        key,
+        expires: String(expires),
+        sig: sign(config.signingSecret, key, expires),
+      })
+      return `${config.publicBaseUrl}/api/storage/object?${params}`
+    },
+  }
+}
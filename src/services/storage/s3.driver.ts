@@ -0,0 +1,97 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { StorageDriver } from './types'
+
+export interface S3DriverConfig {
+  bucket: string
+  region: string
+  // S3-compatible services (MinIO, R2, ...) — usually together with forcePathStyle
+  endpoint?: string
+  forcePathStyle?: boolean
+  accessKeyId?: string
+  secretAccessKey?: string
+}
+
+export function createS3Driver(config: S3DriverConfig): StorageDriver {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    // Without explicit keys the SDK's default chain applies (instance role, profile, ...)
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined,
+  })
+
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }))
+    },
+
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }))
+      if (!response.Body) throw new Error(`Empty object: ${key}`)
+      return Buffer.from(await response.Body.transformToByteArray())
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }))
+    },
+
+    async createMultipartUpload(key, contentType) {
+      const response = await client.send(new CreateMultipartUploadCommand({
+        Bucket: config.bucket,
+        Key: key,
+        ContentType: contentType,
+      }))
+      if (!response.UploadId) throw new Error(`No upload id for ${key}`)
+      return response.UploadId
+    },
+
+    async uploadPart(key, uploadId, partNumber, body) {
+      const response = await client.send(new UploadPartCommand({
+        Bucket: config.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: body,
+      }))
+      return response.ETag || ''
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      await client.send(new CompleteMultipartUploadCommand({
+        Bucket: config.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })) },
+      }))
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      await client.send(new AbortMultipartUploadCommand({ Bucket: config.bucket, Key: key, UploadId: uploadId }))
+    },
+
+    getSignedUrl(key, expiresInSeconds) {
+      return getSignedUrl(client, new GetObjectCommand({ Bucket: config.bucket, Key: key }), {
+        expiresIn: expiresInSeconds,
+      })
+    },
+  }
+}
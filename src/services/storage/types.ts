@@ -0,0 +1,24 @@
+export type StorageDriverName = 's3' | 'local'
+
+export const STORAGE_DRIVER_NAMES: StorageDriverName[] = ['s3', 'local']
+
+export interface StoragePart {
+  partNumber: number
+  etag: string
+}
+
+// Objects are addressed by key only — nothing outside this module builds a URL
+export interface StorageDriver {
+  name: StorageDriverName
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer>
+  delete(key: string): Promise<void>
+  // Multipart writes for large uploads. Parts are numbered from 1; on S3 every part but the
+  // last must be at least 5 MiB.
+  createMultipartUpload(key: string, contentType: string): Promise<string>
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string>
+  completeMultipartUpload(key: string, uploadId: string, parts: StoragePart[]): Promise<void>
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>
+  // Short-lived read URL — the bucket/directory itself is never public
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>
+}
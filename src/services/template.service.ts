@@ -0,0 +1,131 @@
+import mongoose from 'mongoose'
+import InterviewTemplate, { IInterviewTemplate, ITemplateSection } from '../models/InterviewTemplate'
+import { INTERVIEW_TYPES, InterviewType } from '../models/Session'
+
+type Id = mongoose.Types.ObjectId | string
+
+// Gemini Live prebuilt voices
+export const TEMPLATE_VOICES = ['Aoede', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Zephyr']
+
+const MAX_REQUIRED_QUESTIONS = 30
+const MAX_SECTIONS = 20
+const MAX_TEXT_CHARS = 4000
+
+// The fields a template version carries, whether saved or a draft being previewed
+export interface TemplateContent {
+  name: string
+  persona: string
+  voice: string | null
+  interviewerInstructions: string
+  requiredQuestions: string[]
+  sectionOutline: ITemplateSection[]
+}
+
+export const isInterviewType = (value: unknown): value is InterviewType =>
+  INTERVIEW_TYPES.includes(value as InterviewType)
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '')
+
+// Returns the cleaned template or a message saying what is wrong with it
+export function parseTemplateContent(body: any): TemplateContent | string {
+  const fields = {
+    name: text(body?.name),
+    persona: text(body?.persona),
+    interviewerInstructions: text(body?.interviewerInstructions),
+  }
+  for (const [field, value] of Object.entries(fields)) {
+    if (value.length > MAX_TEXT_CHARS) return `${field} must be at most ${MAX_TEXT_CHARS} characters`
+  }
+
+  const voice = body?.voice === undefined || body?.voice === null || body?.voice === '' ? null : body.voice
+  if (voice !== null && !TEMPLATE_VOICES.includes(voice)) {
+    return `voice must be one of: ${TEMPLATE_VOICES.join(', ')}`
+  }
+
+  const questions = body?.requiredQuestions ?? []
+  if (!Array.isArray(questions) || questions.some((q) => typeof q !== 'string')) {
+    return 'requiredQuestions must be an array of strings'
+  }
+  const requiredQuestions = questions.map((q: string) => q.trim()).filter(Boolean)
+  if (requiredQuestions.length > MAX_REQUIRED_QUESTIONS) {
+    return `A template can have at most ${MAX_REQUIRED_QUESTIONS} required questions`
+  }
+
+  const outline = body?.sectionOutline ?? []
+  if (!Array.isArray(outline) || outline.some((s) => !s || !text(s.heading))) {
+    return 'sectionOutline must be an array of { heading, guidance }'
+  }
+  if (outline.length > MAX_SECTIONS) return `A template can have at most ${MAX_SECTIONS} sections`
+  const sectionOutline = outline.map((s: any) => ({ heading: text(s.heading), guidance: text(s.guidance) }))
+
+  return { ...fields, voice, requiredQuestions, sectionOutline }
+}
+
+export function latestTemplate(workspaceId: Id, interviewType: InterviewType): Promise<IInterviewTemplate | null> {
+  return InterviewTemplate.findOne({ workspaceId, interviewType }).sort({ version: -1 })
+}
+
+// The version a session was created with; null for sessions on the built-in prompts
+export async function sessionTemplate(session: { templateId?: any }): Promise<IInterviewTemplate | null> {
+  if (!session.templateId) return null
+  return InterviewTemplate.findById(session.templateId)
+}
+
+// What a new session pins — call when creating it
+export async function templatePin(
+  workspaceId: Id,
+  interviewType: InterviewType
+): Promise<{ templateId: mongoose.Types.ObjectId | null; templateVersion: number | null }> {
+  const template = await latestTemplate(workspaceId, interviewType)
+  return {
+    templateId: (template?._id as mongoose.Types.ObjectId) || null,
+    templateVersion: template?.version ?? null,
+  }
+}
+
+// Versions are numbered per workspace and interview type; a concurrent save that takes the
+// same number retries
+export async function recordTemplateVersion(
+  workspaceId: Id,
+  interviewType: InterviewType,
+  content: TemplateContent,
+  authorId: Id | null
+): Promise<IInterviewTemplate> {
+  for (let attempt = 0; ; attempt++) {
+    const latest = await latestTemplate(workspaceId, interviewType)
+    try {
+      return await InterviewTemplate.create({
+        ...content,
+        workspaceId,
+        interviewType,
+        authorId,
+        version: (latest?.version || 0) + 1,
+      })
+    } catch (err: any) {
+      if (err.code !== 11000 || attempt >= 4) throw err
+    }
+  }
+}
+
+// ── Prompt fragments ─────────────────────────────────────────
+
+export function interviewerTemplateSection(template: TemplateContent | null): string {
+  if (!template) return ''
+  let section = ''
+  if (template.interviewerInstructions) {
+    section += `\nWORKSPACE INSTRUCTIONS FOR THIS INTERVIEW TYPE:\n${template.interviewerInstructions}\n`
+  }
+  if (template.requiredQuestions.length > 0) {
+    section += `\nQUESTIONS YOU MUST ASK (in your own words, at a natural point — none may be skipped):\n${template.requiredQuestions
+      .map((q, i) => `${i + 1}. ${q}`)
+      .join('\n')}\n`
+  }
+  return section
+}
+
+export function documentOutlineSection(template: TemplateContent | null): string {
+  if (!template || template.sectionOutline.length === 0) return ''
+  return `\nSECTION OUTLINE — use these sections in this order. Add a section only for material that fits none of them; keep a listed section with a "gaps" note if the interview did not cover it:\n${template.sectionOutline
+    .map((s, i) => `${i + 1}. ${s.heading}${s.guidance ? ` — ${s.guidance}` : ''}`)
+    .join('\n')}\n`
+}
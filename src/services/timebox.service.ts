@@ -0,0 +1,48 @@
+import { ITopicCoverage } from '../models/Session'
+
+const MINUTE_MS = 60 * 1000
+
+// How long before the limit the interviewer is told to wrap up — at most a quarter of the interview
+const WRAP_UP_MS = (Number(process.env.INTERVIEW_WRAP_UP_MINUTES) || 5) * MINUTE_MS
+// Seconds remaining at which the browser gets a countdown warning
+export const WARNING_SECONDS = (process.env.INTERVIEW_WARNING_SECONDS || '300,120,60,30,10')
+  .split(',')
+  .map(Number)
+  .filter((n) => Number.isFinite(n) && n > 0)
+  .sort((a, b) => b - a)
+// With this much left the interviewer is told to close now
+export const CLOSING_MS = MINUTE_MS
+
+// Managers can add time to a pending or running interview, up to this much per session
+export const MAX_EXTENSION_MINUTES = 60
+
+export const interviewLimitMs = (session: { duration?: number; extensionMinutes?: number }): number =>
+  ((session.duration || 30) + (session.extensionMinutes || 0)) * MINUTE_MS
+
+export const wrapUpAtMs = (limitMs: number): number => limitMs - Math.min(WRAP_UP_MS, limitMs / 4)
+
+const minutesLeft = (remainingMs: number): number => Math.max(1, Math.round(remainingMs / MINUTE_MS))
+
+function remainingTopics(coverage: ITopicCoverage[]): string[] {
+  return coverage.filter((c) => c.status !== 'covered').map((c) => c.topic)
+}
+
+export function wrapUpInstruction(coverage: ITopicCoverage[], remainingMs: number): string {
+  const topics = remainingTopics(coverage)
+  const focus = topics.length > 0
+    ? `These topics are not fully covered yet — prioritise them and get the most important facts on each:\n${topics.map((t) => `- ${t}`).join('\n')}`
+    : 'All planned topics have been covered — use the time to fill in edge cases and anything only this person knows.'
+  return `About ${minutesLeft(remainingMs)} minute(s) of the interview remain. Start wrapping up now. ${focus}
+Keep questions short. Do not start new areas.`
+}
+
+export function closingInstruction(employeeName: string, coverage: ITopicCoverage[]): string {
+  const topics = remainingTopics(coverage)
+  return `Less than a minute remains. Finish the current point, ${
+    topics.length > 0 ? `briefly name the topics that still need a follow-up (${topics.join(', ')}), ` : ''
+  }thank ${employeeName} and close the interview.`
+}
+
+export function extensionInstruction(remainingMs: number): string {
+  return `The interview has been extended — about ${minutesLeft(remainingMs)} minute(s) remain. Carry on with the remaining topics at a normal pace.`
+}
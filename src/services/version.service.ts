@@ -0,0 +1,57 @@
+import mongoose from 'mongoose'
+import DocumentVersion, { DocumentVersionSource, IDocumentVersion } from '../models/DocumentVersion'
+import { IDocument } from '../models/Session'
+import { documentToHtml } from './document.service'
+
+type Id = mongoose.Types.ObjectId | string
+
+interface VersionInput {
+  sessionId: Id
+  workspaceId: Id
+  source: DocumentVersionSource
+  authorId?: Id | null
+  document: IDocument | null
+  documentHtml: string | null
+  restoredFrom?: number | null
+}
+
+// Versions are numbered per session; a concurrent save that takes the same number retries
+export async function recordDocumentVersion(input: VersionInput): Promise<IDocumentVersion> {
+  for (let attempt = 0; ; attempt++) {
+    const latest = await DocumentVersion.findOne({ sessionId: input.sessionId })
+      .sort({ version: -1 })
+      .select('version')
+
+    try {
+      return await DocumentVersion.create({
+        ...input,
+        authorId: input.authorId || null,
+        restoredFrom: input.restoredFrom ?? null,
+        version: (latest?.version || 0) + 1,
+      })
+    } catch (err: any) {
+      if (err.code !== 11000 || attempt >= 4) throw err
+    }
+  }
+}
+
+// Sessions generated before version history existed have a document but no versions —
+// capture it once before it is overwritten so the first save or regenerate loses nothing
+export async function ensureBaselineVersion(session: {
+  _id: any
+  workspaceId: any
+  document?: IDocument | null
+  documentHtml?: string | null
+}): Promise<void> {
+  if (!session.documentHtml && !session.document) return
+  if (await DocumentVersion.exists({ sessionId: session._id })) return
+
+  const isUntouched = !!session.document && session.documentHtml === documentToHtml(session.document)
+  await recordDocumentVersion({
+    sessionId: session._id,
+    workspaceId: session.workspaceId,
+    source: isUntouched ? 'ai' : 'manual',
+    document: session.document || null,
+    documentHtml: session.documentHtml || null,
+  })
+}
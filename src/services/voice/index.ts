@@ -0,0 +1,23 @@
+import { createVertexVoiceProvider } from './vertex.provider'
+import { createMockVoiceProvider } from './mock.provider'
+import { VoiceProvider, VoiceProviderName, VOICE_PROVIDER_NAMES } from './types'
+
+export * from './types'
+
+export function isVoiceProviderName(value: unknown): value is VoiceProviderName {
+  return typeof value === 'string' && (VOICE_PROVIDER_NAMES as string[]).includes(value)
+}
+
+// VOICE_PROVIDER picks the realtime backend; defaults to Vertex Gemini Live
+export function getVoiceProvider(name?: VoiceProviderName | null): VoiceProvider {
+  const envProvider = process.env.VOICE_PROVIDER
+  const resolved: VoiceProviderName = name
+    || (isVoiceProviderName(envProvider) ? envProvider : 'vertex')
+
+  switch (resolved) {
+    case 'vertex':
+      return createVertexVoiceProvider()
+    case 'mock':
+      return createMockVoiceProvider()
+  }
+}
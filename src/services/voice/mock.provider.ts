@@ -0,0 +1,97 @@
+import fs from 'fs'
+import { VoiceConnectOptions, VoiceConnection, VoiceProvider } from './types'
+
+interface MockTurn {
+  speaker: 'ai' | 'employee'
+  text: string
+}
+
+// Short 440 Hz tone as 24 kHz 16-bit mono PCM — same format Gemini Live returns
+function toneChunk(durationMs = 250): string {
+  const sampleRate = 24000
+  const samples = Math.floor((sampleRate * durationMs) / 1000)
+  const buffer = Buffer.alloc(samples * 2)
+  for (let i = 0; i < samples; i++) {
+    const value = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 3000)
+    buffer.writeInt16LE(value, i * 2)
+  }
+  return buffer.toString('base64')
+}
+
+function defaultScript(session: any): MockTurn[] {
+  const topics: string[] = session.topics?.length ? session.topics : ['your day-to-day work']
+  const turns: MockTurn[] = [
+    { speaker: 'ai', text: `Hi ${session.employeeName}, thanks for joining this knowledge transfer session.` },
+  ]
+  for (const topic of topics) {
+    turns.push({ speaker: 'ai', text: `Can you walk me through ${topic}?` })
+    turns.push({ speaker: 'employee', text: `Sure. For ${topic}, the main thing to know is how we handle it day to day.` })
+  }
+  turns.push({ speaker: 'ai', text: 'Thank you, that covers everything I had. We can wrap up here.' })
+  return turns
+}
+
+// VOICE_MOCK_SCRIPT may point at a JSON array of { speaker, text } turns
+function loadScript(session: any): MockTurn[] {
+  const path = process.env.VOICE_MOCK_SCRIPT
+  if (!path) return defaultScript(session)
+  return JSON.parse(fs.readFileSync(path, 'utf8')) as MockTurn[]
+}
+
+// Scripted offline backend — plays turns on a timer and hands out resumption handles
+// of the form mock-<turn>, so a resumed connection continues where the last one stopped
+export function createMockVoiceProvider(): VoiceProvider {
+  return {
+    name: 'mock',
+    outputSampleRate: 24000,
+
+    async connect(options: VoiceConnectOptions): Promise<VoiceConnection> {
+      const { session, resumptionHandle, handlers } = options
+      const stepMs = Number(process.env.VOICE_MOCK_STEP_MS) || 1000
+      const script = loadScript(session)
+      const resumed = resumptionHandle?.match(/^mock-(\d+)$/)
+      let turnIndex = resumed ? Number(resumed[1]) : 0
+      let open = true
+      let timer: NodeJS.Timeout | null = null
+
+      function playTurn(turn: MockTurn) {
+        const words = turn.text.split(' ')
+        if (turn.speaker === 'ai') {
+          handlers.onAudio(toneChunk())
+          handlers.onModelTurn()
+          words.forEach((word, i) => handlers.onOutputTranscript(i === 0 ? word : ` ${word}`))
+          handlers.onTurnComplete()
+        } else {
+          words.forEach((word, i) => handlers.onInputTranscript(i === 0 ? word : ` ${word}`))
+        }
+      }
+
+      function next() {
+        if (!open || turnIndex >= script.length) return
+        playTurn(script[turnIndex])
+        turnIndex++
+        handlers.onResumptionHandle(`mock-${turnIndex}`)
+        timer = setTimeout(next, stepMs)
+      }
+
+      setImmediate(() => {
+        if (!open) return
+        handlers.onReady()
+        timer = setTimeout(next, stepMs)
+      })
+
+      return {
+        isOpen: () => open,
+        sendRealtimeInput: () => {},
+        sendClientMessage: () => {},
+        sendInstruction: (text) => console.log(`[mock voice] Instruction: ${text}`),
+        close: () => {
+          if (!open) return
+          open = false
+          if (timer) clearTimeout(timer)
+          setImmediate(() => handlers.onClose(1000))
+        },
+      }
+    },
+  }
+}
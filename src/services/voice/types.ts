@@ -0,0 +1,47 @@
+export type VoiceProviderName = 'vertex' | 'mock'
+
+export const VOICE_PROVIDER_NAMES: VoiceProviderName[] = ['vertex', 'mock']
+
+export interface MediaChunk {
+  mime_type: string
+  data: string // base64
+}
+
+// Events a realtime backend reports back to the browser bridge
+export interface VoiceEventHandlers {
+  onReady(): void
+  onAudio(base64Pcm: string): void
+  onModelTurn(): void
+  onTurnComplete(): void
+  onInputTranscript(text: string): void
+  onOutputTranscript(text: string): void
+  onResumptionHandle(handle: string): void
+  onClose(code: number): void
+  onError(err: Error): void
+}
+
+export interface VoiceConnectOptions {
+  session: any
+  systemPrompt: string
+  // Prebuilt voice from the session's interview template — null uses the provider default
+  voiceName: string | null
+  resumptionHandle: string | null
+  handlers: VoiceEventHandlers
+}
+
+export interface VoiceConnection {
+  isOpen(): boolean
+  sendRealtimeInput(chunks: MediaChunk[]): void
+  // Anything else the browser sends (e.g. client_content) — providers may ignore it
+  sendClientMessage(data: any): void
+  // Out-of-band direction from the server (e.g. time to wrap up) — not spoken by the employee
+  sendInstruction(text: string): void
+  close(): void
+}
+
+export interface VoiceProvider {
+  name: VoiceProviderName
+  // Sample rate of the 16-bit mono PCM passed to onAudio
+  outputSampleRate: number
+  connect(options: VoiceConnectOptions): Promise<VoiceConnection>
+}
@@ -0,0 +1,109 @@
+import WebSocket from 'ws'
+import getGoogleAccessToken from '../../utils/getGoogleAccessToken'
+import { MediaChunk, VoiceConnectOptions, VoiceConnection, VoiceProvider } from './types'
+
+// Vertex AI Gemini Live — BidiGenerateContent over WebSocket
+export function createVertexVoiceProvider(): VoiceProvider {
+  return {
+    name: 'vertex',
+    outputSampleRate: 24000,
+
+    async connect(options: VoiceConnectOptions): Promise<VoiceConnection> {
+      const { systemPrompt, voiceName, resumptionHandle, handlers } = options
+      const PROJECT_ID = process.env.GEMINI_PROJECT_ID
+      const LOCATION   = process.env.GEMINI_LOCATION
+      const MODEL      = process.env.GEMINI_MODEL
+      const GEMINI_URL = `wss://${LOCATION}-aiplatform.googleapis.com/ws/google.cloud.aiplatform.v1beta1.LlmBidiService/BidiGenerateContent`
+
+      const ACCESS_TOKEN = await getGoogleAccessToken()
+
+      const geminiWs = new WebSocket(GEMINI_URL, {
+        headers: { Authorization: `Bearer ${ACCESS_TOKEN}` },
+      })
+
+      geminiWs.onopen = () => {
+        const setupMessage: any = {
+          setup: {
+            model: `projects/${PROJECT_ID}/locations/${LOCATION}/publishers/google/models/${MODEL}`,
+            generation_config: {
+              response_modalities: ['AUDIO'],
+              speech_config: {
+                language_code: 'en-US',
+                voice_config: {
+                  prebuilt_voice_config: { voice_name: voiceName || 'Aoede' },
+                },
+              },
+            },
+            system_instruction: {
+              parts: [{ text: systemPrompt }],
+            },
+            input_audio_transcription: {},
+            output_audio_transcription: {},
+          },
+        }
+
+        if (resumptionHandle) {
+          setupMessage.setup.session_resumption = { handle: resumptionHandle }
+        }
+
+        geminiWs.send(JSON.stringify(setupMessage))
+        handlers.onReady()
+      }
+
+      geminiWs.onmessage = (event) => {
+        const data = JSON.parse(event.data.toString())
+
+        // AI audio
+        if (data.serverContent?.modelTurn?.parts) {
+          data.serverContent.modelTurn.parts.forEach((part: any) => {
+            if (part.inlineData?.mimeType === 'audio/pcm') {
+              handlers.onAudio(part.inlineData.data)
+            }
+          })
+          handlers.onModelTurn()
+        }
+
+        if (data.serverContent?.turnComplete) {
+          handlers.onTurnComplete()
+        }
+
+        // Employee transcript
+        if (data.serverContent?.inputTranscription?.text) {
+          handlers.onInputTranscript(data.serverContent.inputTranscription.text)
+        }
+
+        // AI transcript
+        if (data.serverContent?.outputTranscription?.text) {
+          handlers.onOutputTranscript(data.serverContent.outputTranscription.text)
+        }
+
+        // Resumption token
+        if (data.sessionResumptionUpdate?.newHandle) {
+          handlers.onResumptionHandle(data.sessionResumptionUpdate.newHandle)
+        }
+      }
+
+      geminiWs.onclose = (event) => handlers.onClose(event.code)
+      geminiWs.onerror = (err) => handlers.onError(new Error(err.message))
+
+      return {
+        isOpen: () => geminiWs.readyState === WebSocket.OPEN,
+        sendRealtimeInput: (chunks: MediaChunk[]) => {
+          geminiWs.send(JSON.stringify({ realtime_input: { media_chunks: chunks } }))
+        },
+        sendClientMessage: (data: any) => {
+          geminiWs.send(JSON.stringify(data))
+        },
+        sendInstruction: (text: string) => {
+          geminiWs.send(JSON.stringify({
+            client_content: {
+              turns: [{ role: 'user', parts: [{ text: `[Interview facilitator — do not read this aloud] ${text}` }] }],
+              turn_complete: true,
+            },
+          }))
+        },
+        close: () => geminiWs.close(),
+      }
+    },
+  }
+}
@@ -0,0 +1,180 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import Webhook, { IWebhook, WebhookEvent } from '../models/Webhook'
+import WebhookDelivery, { IWebhookDelivery } from '../models/WebhookDelivery'
+import { enqueueJob, JobHandler } from './job.service'
+import isPublicHost from '../utils/isPublicHost'
+
+export const WEBHOOK_JOB = 'webhook_delivery'
+
+// Only ever sent by the test endpoint, regardless of the webhook's subscriptions
+export const WEBHOOK_TEST_EVENT = 'webhook.test'
+
+const DELIVERY_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10 * 1000
+// With the job queue's backoff this retries for roughly 2.5 minutes, then up to 10 minutes apart
+const MAX_DELIVERY_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8
+const MAX_RESPONSE_CHARS = 500
+// Never read more than this of a receiver's response, however much it sends
+const MAX_RESPONSE_BYTES = 4 * 1024
+
+type Id = mongoose.Types.ObjectId | string
+
+export const newWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('hex')}`
+
+// Receivers recompute HMAC-SHA256(secret, `${t}.${body}`) and compare it with v1, rejecting
+// stale timestamps to stop replays
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+export function isWebhookUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+// Webhooks are fetched server-side and their responses shown back in the delivery log, so they
+// must not point into our own network. Checked on save and again before every delivery.
+export async function webhookUrlProblem(value: string): Promise<string | null> {
+  return (await isPublicHost(new URL(value).hostname)) ? null : 'url must resolve to a public internet address'
+}
+
+async function readCapped(response: Response): Promise<string> {
+  if (!response.body) return ''
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let bytes = 0
+  try {
+    while (bytes < MAX_RESPONSE_BYTES) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      bytes += value.length
+    }
+  } finally {
+    reader.cancel().catch(() => {})
+  }
+  return Buffer.concat(chunks).subarray(0, MAX_RESPONSE_BYTES).toString('utf8').slice(0, MAX_RESPONSE_CHARS)
+}
+
+// What session events carry — enough to act on without a follow-up GET for most tooling
+export function sessionEventData(session: any): Record<string, any> {
+  return {
+    sessionId: String(session._id),
+    status: session.status,
+    employeeName: session.employeeName,
+    employeeEmail: session.employeeEmail,
+    role: session.role,
+    interviewType: session.interviewType,
+    scheduledAt: session.scheduledAt || null,
+    startedAt: session.startedAt || null,
+    endedAt: session.endedAt || null,
+    parentSessionId: session.parentSessionId ? String(session.parentSessionId) : null,
+  }
+}
+
+async function queueDelivery(webhook: IWebhook, event: string, data: Record<string, any>): Promise<IWebhookDelivery> {
+  const id = new mongoose.Types.ObjectId()
+  const delivery = await WebhookDelivery.create({
+    _id: id,
+    webhookId: webhook._id,
+    workspaceId: webhook.workspaceId,
+    event,
+    payload: {
+      id: String(id),
+      event,
+      createdAt: new Date().toISOString(),
+      workspaceId: String(webhook.workspaceId),
+      data,
+    },
+  })
+
+  await enqueueJob(
+    WEBHOOK_JOB,
+    { deliveryId: String(delivery._id) },
+    { workspaceId: webhook.workspaceId, maxAttempts: MAX_DELIVERY_ATTEMPTS }
+  )
+  return delivery
+}
+
+export function sendTestWebhook(webhook: IWebhook): Promise<IWebhookDelivery> {
+  return queueDelivery(webhook, WEBHOOK_TEST_EVENT, { message: 'Test event from KT Pro' })
+}
+
+// Fire-and-forget — a broken webhook setup must never fail the request or job that raised the event
+export function emitWebhookEvent(workspaceId: Id, event: WebhookEvent, data: Record<string, any>): void {
+  Webhook.find({ workspaceId, active: true, events: event })
+    .then((webhooks) => Promise.all(webhooks.map((webhook) => queueDelivery(webhook, event, data))))
+    .catch((err) => console.error(`Webhook ${event} for workspace ${workspaceId} not queued:`, err.message))
+}
+
+async function recordAttempt(delivery: IWebhookDelivery, attempt: Record<string, any>, set: Record<string, any> = {}) {
+  await WebhookDelivery.updateOne({ _id: delivery._id }, { $push: { attempts: attempt }, $set: set })
+}
+
+export const webhookJobHandler: JobHandler = {
+  async run(job) {
+    const delivery = await WebhookDelivery.findById(job.payload.deliveryId)
+    if (!delivery || delivery.status !== 'pending') return
+
+    const webhook = await Webhook.findById(delivery.webhookId).select('+secret')
+    if (!webhook || !webhook.active) {
+      await WebhookDelivery.updateOne({ _id: delivery._id }, { $set: { status: 'skipped' } })
+      return
+    }
+
+    const body = JSON.stringify(delivery.payload)
+    const started = Date.now()
+    let response: Response
+
+    const problem = await webhookUrlProblem(webhook.url)
+    if (problem) {
+      await recordAttempt(delivery, { at: new Date(), responseStatus: null, responseBody: null, error: problem, durationMs: 0 })
+      throw new Error(problem)
+    }
+
+    try {
+      response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'KT-Pro-Webhooks/1.0',
+          'X-KT-Event': delivery.event,
+          'X-KT-Delivery': String(delivery._id),
+          'X-KT-Signature': signWebhookPayload(webhook.secret, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      })
+    } catch (err) {
+      const error = (err as Error).name === 'TimeoutError' ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms` : (err as Error).message
+      await recordAttempt(delivery, { at: new Date(), responseStatus: null, responseBody: null, error, durationMs: Date.now() - started })
+      throw new Error(error)
+    }
+
+    const responseBody = await readCapped(response).catch(() => '')
+    const attempt = { at: new Date(), responseStatus: response.status, responseBody, durationMs: Date.now() - started }
+
+    if (!response.ok) {
+      const error = `Receiver responded ${response.status}`
+      await recordAttempt(delivery, { ...attempt, error })
+      // Thrown so the job queue backs off and retries
+      throw new Error(error)
+    }
+
+    await recordAttempt(delivery, { ...attempt, error: null }, { status: 'succeeded', deliveredAt: new Date() })
+  },
+
+  async onDeadLetter(job) {
+    await WebhookDelivery.updateOne(
+      { _id: job.payload.deliveryId, status: 'pending' },
+      { $set: { status: 'failed' } }
+    )
+  },
+}
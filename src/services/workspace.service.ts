@@ -0,0 +1,82 @@
+import mongoose from 'mongoose'
+import Workspace, { IWorkspace } from '../models/Workspace'
+import WorkspaceMember from '../models/WorkspaceMember'
+import { IUser } from '../models/User'
+import { MemberRole, WorkspaceRole, strongerRole } from '../config/permissions'
+
+type Id = mongoose.Types.ObjectId | string
+
+export async function addWorkspaceMember(
+  workspaceId: Id,
+  userId: Id,
+  invitedBy: Id | null = null,
+  role: MemberRole = 'manager'
+): Promise<void> {
+  await WorkspaceMember.updateOne(
+    { workspaceId, userId },
+    { $setOnInsert: { workspaceId, userId, invitedBy, role } },
+    { upsert: true }
+  )
+}
+
+// Workspaces created before memberships existed only have ownerId — backfill on first check
+export async function isWorkspaceMember(userId: Id, workspaceId: Id | null | undefined): Promise<boolean> {
+  if (!workspaceId || !mongoose.isValidObjectId(workspaceId)) return false
+
+  if (await WorkspaceMember.exists({ workspaceId, userId })) return true
+
+  const owned = await Workspace.exists({ _id: workspaceId, ownerId: userId })
+  if (!owned) return false
+
+  await addWorkspaceMember(workspaceId, userId)
+  return true
+}
+
+// Owner comes from Workspace.ownerId; a global IUser.role of 'admin' acts as a floor in every
+// workspace the user belongs to. Returns null for non-members.
+export async function getWorkspaceRole(
+  userId: Id,
+  workspaceId: Id | null | undefined,
+  userRole?: string
+): Promise<WorkspaceRole | null> {
+  if (!workspaceId || !mongoose.isValidObjectId(workspaceId)) return null
+
+  const workspace = await Workspace.findById(workspaceId).select('ownerId')
+  if (!workspace) return null
+  if (String(workspace.ownerId) === String(userId)) return 'owner'
+
+  const membership = await WorkspaceMember.findOne({ workspaceId, userId }).select('role')
+  if (!membership) return null
+
+  return userRole === 'admin' ? strongerRole(membership.role, 'admin') : membership.role
+}
+
+export async function getUserWorkspaces(userId: Id): Promise<IWorkspace[]> {
+  const memberships = await WorkspaceMember.find({ userId }).select('workspaceId')
+  return Workspace.find({ _id: { $in: memberships.map((m) => m.workspaceId) } })
+    .select('-__v')
+    .sort({ createdAt: 1 })
+}
+
+export async function createPersonalWorkspace(user: IUser): Promise<IWorkspace> {
+  const workspace = await Workspace.create({
+    name: `${user.email.split('@')[0]}'s Workspace`,
+    ownerId: user._id
+  })
+  await addWorkspaceMember(workspace._id as mongoose.Types.ObjectId, user._id as mongoose.Types.ObjectId)
+  return workspace
+}
+
+// Makes sure user.workspaceId points at a workspace they still belong to —
+// falls back to another membership, and only then to a fresh personal workspace
+export async function ensureActiveWorkspace(user: IUser): Promise<void> {
+  if (await isWorkspaceMember(user._id as mongoose.Types.ObjectId, user.workspaceId)) return
+
+  const membership = await WorkspaceMember.findOne({ userId: user._id }).sort({ createdAt: 1 })
+  const workspaceId = membership
+    ? membership.workspaceId
+    : (await createPersonalWorkspace(user))._id as mongoose.Types.ObjectId
+
+  user.workspaceId = workspaceId
+  await user.save()
+}
@@ -0,0 +1,75 @@
+export interface IcsEvent {
+  uid: string
+  // Must increase on every update so calendar clients replace the earlier copy
+  sequence: number
+  start: Date
+  durationMinutes: number
+  summary: string
+  description: string
+  url: string
+  organizerEmail: string
+  organizerName: string
+  attendeeEmail: string
+  attendeeName: string
+  cancelled?: boolean
+}
+
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+// Parameter values (CN=) are quoted strings, which can't contain DQUOTE or control characters
+const quoteParam = (value: string): string => `"${value.replace(/["\x00-\x1f\x7f]/g, '')}"`
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space
+const foldLine = (line: string): string => {
+  const bytes = Buffer.from(line, 'utf8')
+  if (bytes.length <= 75) return line
+
+  const parts: string[] = []
+  let start = 0
+  while (start < bytes.length) {
+    let end = Math.min(start + (parts.length === 0 ? 75 : 74), bytes.length)
+    // Never split a multi-byte UTF-8 sequence
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--
+    parts.push(bytes.subarray(start, end).toString('utf8'))
+    start = end
+  }
+  return parts.join('\r\n ')
+}
+
+// Single-event iCalendar file — METHOD:REQUEST for invites/updates, METHOD:CANCEL to withdraw
+const buildIcs = (event: IcsEvent): string => {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//KT Pro//Interview Scheduling//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `URL:${event.url}`,
+    `LOCATION:${escapeText(event.url)}`,
+    `ORGANIZER;CN=${quoteParam(event.organizerName)}:mailto:${event.organizerEmail}`,
+    `ATTENDEE;CN=${quoteParam(event.attendeeName)};ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:${event.attendeeEmail}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export default buildIcs
@@ -0,0 +1,72 @@
+export interface TranscriptLine {
+  speaker: string
+  text: string
+  timestamp: any // Date from the live bridge, number in older sessions
+}
+
+export interface TranscriptChunk {
+  index: number
+  startMs: number // offset from the first turn
+  endMs: number
+  text: string
+  tokens: number
+}
+
+// Rough but provider-agnostic: ~4 characters per token for English text
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+export const formatTranscriptLine = (line: TranscriptLine): string =>
+  `${line.speaker.toUpperCase()}: ${line.text}`
+
+export const formatOffset = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000)
+  const seconds = Math.floor((ms % 60000) / 1000)
+  return `${String(totalMinutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+}
+
+const toMs = (timestamp: any): number => {
+  const ms = new Date(timestamp).getTime()
+  return Number.isNaN(ms) ? 0 : ms
+}
+
+// Splits a transcript into windows capped by both duration and token count.
+// A single turn larger than maxTokens still gets a chunk of its own.
+const chunkTranscript = (
+  transcript: TranscriptLine[],
+  maxTokens: number,
+  maxWindowMs: number
+): TranscriptChunk[] => {
+  const chunks: TranscriptChunk[] = []
+  const origin = transcript.length > 0 ? toMs(transcript[0].timestamp) : 0
+  let lines: string[] = []
+  let tokens = 0
+  let startMs = 0
+  let endMs = 0
+
+  const flush = () => {
+    if (lines.length === 0) return
+    chunks.push({ index: chunks.length, startMs, endMs, text: lines.join('\n'), tokens })
+    lines = []
+    tokens = 0
+  }
+
+  for (const turn of transcript) {
+    const line = formatTranscriptLine(turn)
+    const lineTokens = estimateTokens(line) + 1
+    const offset = Math.max(0, toMs(turn.timestamp) - origin)
+
+    if (lines.length > 0 && (tokens + lineTokens > maxTokens || offset - startMs > maxWindowMs)) {
+      flush()
+    }
+    if (lines.length === 0) startMs = offset
+
+    lines.push(line)
+    tokens += lineTokens
+    endMs = offset
+  }
+  flush()
+
+  return chunks
+}
+
+export default chunkTranscript
@@ -0,0 +1,75 @@
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Flattens editor HTML into one line per block so diffs read like paragraphs, not markup
+export const htmlToLines = (html: string | null): string[] =>
+  (html || '')
+    .replace(/<\/(p|h[1-6]|li|blockquote|pre|tr|div)>|<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+// The LCS table is (changed lines before) × (changed lines after). Above this many cells the
+// diff is refused rather than tying up the event loop — about 16 MB and well under a second
+export const MAX_DIFF_CELLS = 4_000_000
+
+// Line diff via longest common subsequence over the lines between the common prefix and suffix.
+// Returns null when the changed region is too large to diff.
+const diffText = (before: string[], after: string[]): DiffLine[] | null => {
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const a = before.slice(start, endBefore)
+  const b = after.slice(start, endAfter)
+  const n = a.length
+  const m = b.length
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) return null
+
+  const width = m + 1
+  const lcs = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  const result: DiffLine[] = before.slice(0, start).map((text) => ({ type: 'equal', text }))
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i] })
+      i++
+      j++
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push({ type: 'removed', text: a[i++] })
+    } else {
+      result.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < n) result.push({ type: 'removed', text: a[i++] })
+  while (j < m) result.push({ type: 'added', text: b[j++] })
+  for (const text of before.slice(endBefore)) result.push({ type: 'equal', text })
+
+  return result
+}
+
+export default diffText
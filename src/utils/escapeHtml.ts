@@ -0,0 +1,5 @@
+// For user-supplied values interpolated into email HTML, text or attributes
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+export default escapeHtml
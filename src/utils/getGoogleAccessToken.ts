@@ -0,0 +1,21 @@
+import { GoogleAuth } from 'google-auth-library'
+
+const getGoogleAccessToken = async (): Promise<string> => {
+  const keyJson = process.env.GOOGLE_SERVICE_ACCOUNT_KEY
+
+  const auth = keyJson
+    ? new GoogleAuth({
+        credentials: JSON.parse(keyJson),
+        scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+      })
+    : new GoogleAuth({
+        scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+      })
+
+  const client = await auth.getClient()
+  const token = await client.getAccessToken()
+  if (!token.token) throw new Error('Failed to get access token')
+  return token.token
+}
+
+export default getGoogleAccessToken
@@ -0,0 +1,152 @@
+import { Parser } from 'htmlparser2'
+
+export interface Inline {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  code?: boolean
+  href?: string
+}
+
+export type Block =
+  | { type: 'heading'; level: number; inlines: Inline[] }
+  | { type: 'paragraph'; inlines: Inline[] }
+  | { type: 'quote'; inlines: Inline[] }
+  | { type: 'list'; ordered: boolean; items: Inline[][] }
+  | { type: 'code'; text: string }
+  | { type: 'image'; src: string; alt: string; data?: Buffer | null }
+
+// Removes empty runs and trims whitespace at the edges of a block
+export const tidyInlines = (inlines: Inline[]): Inline[] => {
+  const result = inlines.filter((i) => i.text.length > 0)
+  if (result.length > 0) {
+    result[0] = { ...result[0], text: result[0].text.replace(/^\s+/, '') }
+    const last = result.length - 1
+    result[last] = { ...result[last], text: result[last].text.replace(/\s+$/, '') }
+  }
+  return result.filter((i) => i.text.length > 0)
+}
+
+export const inlinesToText = (inlines: Inline[]): string => inlines.map((i) => i.text).join('')
+
+// Parses editor HTML into a flat list of blocks every exporter can render.
+// Nested lists are flattened into their parent; unknown tags contribute their text only.
+const htmlToBlocks = (html: string): Block[] => {
+  const blocks: Block[] = []
+  const marks = { bold: 0, italic: 0, code: 0 }
+  const hrefs: string[] = []
+  const lists: { ordered: boolean; items: Inline[][] }[] = []
+  let current: Extract<Block, { inlines: Inline[] }> | null = null
+  let pre: { text: string } | null = null
+
+  const closeBlock = () => {
+    if (current) {
+      current.inlines = tidyInlines(current.inlines)
+      if (current.inlines.length > 0) blocks.push(current)
+    }
+    current = null
+  }
+
+  const target = (): Inline[] => {
+    const list = lists[lists.length - 1]
+    if (list) {
+      if (list.items.length === 0) list.items.push([])
+      return list.items[list.items.length - 1]
+    }
+    if (!current) current = { type: 'paragraph', inlines: [] }
+    return current.inlines
+  }
+
+  const parser = new Parser(
+    {
+      onopentag(name, attrs) {
+        if (/^h[1-6]$/.test(name)) {
+          closeBlock()
+          current = { type: 'heading', level: Number(name[1]), inlines: [] }
+        } else if ((name === 'p' || name === 'div') && lists.length === 0) {
+          if (current?.type !== 'quote') {
+            closeBlock()
+            current = { type: 'paragraph', inlines: [] }
+          }
+        } else if (name === 'blockquote') {
+          closeBlock()
+          current = { type: 'quote', inlines: [] }
+        } else if (name === 'ul' || name === 'ol') {
+          if (lists.length === 0) {
+            closeBlock()
+            lists.push({ ordered: name === 'ol', items: [] })
+          } else {
+            lists.push(lists[lists.length - 1])
+          }
+        } else if (name === 'li') {
+          lists[lists.length - 1]?.items.push([])
+        } else if (name === 'pre') {
+          closeBlock()
+          pre = { text: '' }
+        } else if (name === 'strong' || name === 'b') {
+          marks.bold++
+        } else if (name === 'em' || name === 'i') {
+          marks.italic++
+        } else if (name === 'code') {
+          marks.code++
+        } else if (name === 'a') {
+          hrefs.push(attrs.href || '')
+        } else if (name === 'br') {
+          if (!pre) target().push({ text: '\n' })
+        } else if (name === 'img' && attrs.src) {
+          if (lists.length === 0) closeBlock()
+          blocks.push({ type: 'image', src: attrs.src, alt: attrs.alt || '' })
+        }
+      },
+
+      ontext(raw) {
+        if (pre) {
+          pre.text += raw
+          return
+        }
+        const text = raw.replace(/\s+/g, ' ')
+        if (!text.trim() && !current && lists.length === 0) return
+        const href = hrefs[hrefs.length - 1]
+        target().push({
+          text,
+          ...(marks.bold ? { bold: true } : {}),
+          ...(marks.italic ? { italic: true } : {}),
+          ...(marks.code ? { code: true } : {}),
+          ...(href ? { href } : {}),
+        })
+      },
+
+      onclosetag(name) {
+        if (/^h[1-6]$/.test(name) || name === 'blockquote' || ((name === 'p' || name === 'div') && current?.type === 'paragraph')) {
+          closeBlock()
+        } else if (name === 'ul' || name === 'ol') {
+          const list = lists.pop()
+          if (list && lists.length === 0) {
+            const items = list.items.map(tidyInlines).filter((item) => item.length > 0)
+            if (items.length > 0) blocks.push({ type: 'list', ordered: list.ordered, items })
+          }
+        } else if (name === 'pre' && pre) {
+          blocks.push({ type: 'code', text: pre.text.replace(/\n+$/, '') })
+          pre = null
+        } else if (name === 'strong' || name === 'b') {
+          marks.bold = Math.max(0, marks.bold - 1)
+        } else if (name === 'em' || name === 'i') {
+          marks.italic = Math.max(0, marks.italic - 1)
+        } else if (name === 'code') {
+          marks.code = Math.max(0, marks.code - 1)
+        } else if (name === 'a') {
+          hrefs.pop()
+        }
+      },
+    },
+    { decodeEntities: true }
+  )
+
+  parser.write(html)
+  parser.end()
+  closeBlock()
+
+  return blocks
+}
+
+export default htmlToBlocks
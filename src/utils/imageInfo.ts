@@ -0,0 +1,34 @@
+export interface ImageInfo {
+  type: 'jpg' | 'png' | 'gif'
+  width: number
+  height: number
+}
+
+// Reads format and pixel size from the file header — enough to lay images out in DOCX/PDF
+const imageInfo = (data: Buffer): ImageInfo | null => {
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { type: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+  }
+
+  if (data.length > 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { type: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) }
+  }
+
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null
+      const marker = data[offset + 1]
+      const length = data.readUInt16BE(offset + 2)
+      // SOF0–SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { type: 'jpg', height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) }
+      }
+      offset += 2 + length
+    }
+  }
+
+  return null
+}
+
+export default imageInfo
@@ -0,0 +1,41 @@
+import dns from 'dns/promises'
+import net from 'net'
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254), CGNAT, reserved
+// and multicast ranges — nothing a server-side request on a user's behalf should reach
+const blocked = new net.BlockList()
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  blocked.addSubnet(prefix, bits, 'ipv4')
+}
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blocked.addSubnet(prefix, bits, 'ipv6')
+}
+
+export const isPrivateAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it carries
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return blocked.check(mapped[1], 'ipv4')
+  const family = net.isIP(address)
+  if (family === 0) return true
+  return blocked.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+// True only if every address the host resolves to is public. Resolution happens again at
+// connect time, so callers re-check right before each request to narrow DNS rebinding.
+const isPublicHost = async (hostname: string): Promise<boolean> => {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(host)) return !isPrivateAddress(host)
+  try {
+    const addresses = await dns.lookup(host, { all: true, verbatim: true })
+    return addresses.length > 0 && addresses.every((a) => !isPrivateAddress(a.address))
+  } catch {
+    return false
+  }
+}
+
+export default isPublicHost
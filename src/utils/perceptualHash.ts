@@ -0,0 +1,114 @@
+import path from 'path'
+import { Worker } from 'worker_threads'
+import { decode } from 'jpeg-js'
+
+// 16×16 difference hash. Finer than the usual 8×8 so that text-heavy screens
+// (a scrolled log, a new row in a table) still move enough bits to register as changed.
+const HASH_SIZE = 16
+// Screens are mostly flat background, where neighbouring cells differ only by JPEG noise.
+// Brightness steps below this (0–255 scale) count as "equal" so noise can't flip bits.
+const NOISE_FLOOR = 1.5
+
+// Greyscale thumbnail of (HASH_SIZE + 1) × HASH_SIZE, each cell the mean of its source pixels
+function thumbnail(rgba: Uint8Array, width: number, height: number): Float64Array {
+  const cols = HASH_SIZE + 1
+  const rows = HASH_SIZE
+  const sums = new Float64Array(cols * rows)
+  const counts = new Uint32Array(cols * rows)
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height))
+    for (let x = 0; x < width; x++) {
+      const col = Math.min(cols - 1, Math.floor((x * cols) / width))
+      const i = (y * width + x) * 4
+      sums[row * cols + col] += 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]
+      counts[row * cols + col]++
+    }
+  }
+
+  for (let i = 0; i < sums.length; i++) sums[i] /= counts[i] || 1
+  return sums
+}
+
+// Hex-encoded dHash of a JPEG — re-encoding or slight compression noise leaves it (nearly)
+// unchanged. Each neighbour comparison takes two bits (brighter / darker / neither), so a
+// step in either direction counts, and flat areas hash the same every time.
+const perceptualHash = (jpeg: Buffer): string => {
+  const { width, height, data } = decode(jpeg, { useTArray: true, maxMemoryUsageInMB: 256 })
+  const cells = thumbnail(data, width, height)
+  const cols = HASH_SIZE + 1
+  const bytes = Buffer.alloc((HASH_SIZE * HASH_SIZE * 2) / 8)
+
+  let bit = 0
+  for (let row = 0; row < HASH_SIZE; row++) {
+    for (let col = 0; col < HASH_SIZE; col++) {
+      const step = cells[row * cols + col] - cells[row * cols + col + 1]
+      if (step > NOISE_FLOOR) bytes[bit >> 3] |= 0x80 >> (bit & 7)
+      if (step < -NOISE_FLOOR) bytes[(bit + 1) >> 3] |= 0x80 >> ((bit + 1) & 7)
+      bit += 2
+    }
+  }
+  return bytes.toString('hex')
+}
+
+export const hammingDistance = (a: string, b: string): number => {
+  const x = Buffer.from(a, 'hex')
+  const y = Buffer.from(b, 'hex')
+  if (x.length !== y.length) return x.length * 8 || y.length * 8
+  let distance = 0
+  for (let i = 0; i < x.length; i++) {
+    let v = x[i] ^ y[i]
+    while (v) {
+      distance += v & 1
+      v >>= 1
+    }
+  }
+  return distance
+}
+
+// One decode thread shared by every live interview, started on first use and again if it dies
+let worker: Worker | null = null
+let nextRequestId = 0
+const pending = new Map<number, { resolve: (hash: string) => void; reject: (err: Error) => void }>()
+
+function hashWorker(): Worker {
+  if (worker) return worker
+  // Under ts-node the worker is a .ts file too and needs the same loader
+  const ext = path.extname(__filename)
+  const thread = new Worker(path.join(__dirname, `perceptualHash.worker${ext}`), {
+    execArgv: ext === '.ts' ? ['--require', 'ts-node/register'] : undefined,
+  })
+  thread.on('message', ({ id, hash, error }: { id: number; hash?: string; error?: string }) => {
+    const request = pending.get(id)
+    pending.delete(id)
+    if (pending.size === 0) thread.unref()
+    if (error || !hash) request?.reject(new Error(error || 'No hash returned'))
+    else request?.resolve(hash)
+  })
+  // 'error' is followed by 'exit' — only the first, while this is still the current thread,
+  // rejects what it was working on
+  const fail = (err: Error) => {
+    if (worker !== thread) return
+    worker = null
+    for (const request of pending.values()) request.reject(err)
+    pending.clear()
+  }
+  thread.on('error', fail)
+  thread.on('exit', (code) => fail(new Error(`Frame hash worker exited with code ${code}`)))
+  worker = thread
+  return thread
+}
+
+// perceptualHash on the worker thread — use this from request and socket handlers
+export function perceptualHashAsync(jpeg: Buffer): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++
+    pending.set(id, { resolve, reject })
+    const thread = hashWorker()
+    // Only held open while a frame is being hashed
+    thread.ref()
+    thread.postMessage({ id, jpeg })
+  })
+}
+
+export default perceptualHash
@@ -0,0 +1,11 @@
+import { parentPort } from 'worker_threads'
+import perceptualHash from './perceptualHash'
+
+// Runs JPEG decoding off the main thread, which relays live interview audio
+parentPort!.on('message', ({ id, jpeg }: { id: number; jpeg: Uint8Array }) => {
+  try {
+    parentPort!.postMessage({ id, hash: perceptualHash(Buffer.from(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength)) })
+  } catch (err) {
+    parentPort!.postMessage({ id, error: (err as Error).message })
+  }
+})
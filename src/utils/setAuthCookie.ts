@@ -0,0 +1,27 @@
+import { Response } from 'express'
+import jwt from 'jsonwebtoken'
+import { IUser } from '../models/User'
+
+// Signs the session JWT — workspaceId is the user's active workspace
+const setAuthCookie = (res: Response, user: IUser): void => {
+  const token = jwt.sign(
+    {
+      userId: user._id,
+      email: user.email,
+      role: user.role,
+      workspaceId: user.workspaceId
+    },
+    process.env.JWT_SECRET as string,
+    { expiresIn: '7d' }
+  )
+
+  const isProduction = process.env.NODE_ENV === 'production'
+  res.cookie('token', token, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: isProduction ? 'none' : 'lax',
+    maxAge: 7 * 24 * 60 * 60 * 1000
+  })
+}
+
+export default setAuthCookie